@@ -0,0 +1,52 @@
+import { App, getLinkpath, TFile } from "obsidian";
+
+// Extensions of the files considered as attachments (images, PDFs, audio and video)
+const ATTACHMENT_EXTENSIONS = new Set([
+	"png",
+	"jpg",
+	"jpeg",
+	"gif",
+	"bmp",
+	"svg",
+	"webp",
+	"avif",
+	"pdf",
+	"mp3",
+	"wav",
+	"m4a",
+	"ogg",
+	"flac",
+	"3gp",
+	"mp4",
+	"webm",
+	"ogv",
+	"mov",
+	"mkv",
+]);
+
+/**
+ * Finds the attachments referenced by a note, through its embeds and links.
+ *
+ * References are resolved with the MetadataCache, unresolved references and references
+ * to files that are not attachments (e.g. other notes) are ignored.
+ *
+ * @param app - The Obsidian App instance.
+ * @param file - The note to inspect.
+ * @returns The referenced attachments, without duplicates.
+ */
+export function findAttachments(app: App, file: TFile): TFile[] {
+	const cache = app.metadataCache.getFileCache(file);
+	if (!cache) return [];
+
+	const attachments = new Map<string, TFile>();
+	for (const ref of [...(cache.embeds ?? []), ...(cache.links ?? [])]) {
+		const dest = app.metadataCache.getFirstLinkpathDest(
+			getLinkpath(ref.link),
+			file.path,
+		);
+		if (dest && ATTACHMENT_EXTENSIONS.has(dest.extension.toLowerCase())) {
+			attachments.set(dest.path, dest);
+		}
+	}
+	return [...attachments.values()];
+}
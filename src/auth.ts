@@ -0,0 +1,382 @@
+import { Octokit } from "@octokit/rest";
+import { requestUrl } from "obsidian";
+import { createOctokit } from "./github";
+
+// Interface for a user access token obtained with the OAuth device flow
+export interface OAuthToken {
+	accessToken: string; // Access token
+	refreshToken?: string; // Refresh token (tokens of GitHub Apps expire and are refreshed)
+	expiresAt?: number; // Expiration date of the access token in milliseconds (none if it does not expire)
+	refreshTokenExpiresAt?: number; // Expiration date of the refresh token in milliseconds
+	login?: string; // Login of the signed in user
+}
+
+// Interface for a device code of the OAuth device flow
+export interface DeviceCode {
+	deviceCode: string; // Code identifying the device when polling for the token
+	userCode: string; // Code entered by the user on GitHub
+	verificationUri: string; // Page where the user enters the code
+	expiresAt: number; // Expiration date of the codes in milliseconds
+	interval: number; // Minimum delay between polls in seconds
+}
+
+// Interface for an installation access token of a GitHub App
+export interface InstallationToken {
+	token: string; // Access token
+	expiresAt: number; // Expiration date in milliseconds
+}
+
+// Response of the OAuth endpoints of GitHub
+interface OAuthResponse {
+	access_token?: string;
+	refresh_token?: string;
+	expires_in?: number;
+	refresh_token_expires_in?: number;
+	device_code?: string;
+	user_code?: string;
+	verification_uri?: string;
+	interval?: number;
+	error?: string;
+	error_description?: string;
+}
+
+/**
+ * Posts to an OAuth endpoint of GitHub. The request bypasses CORS, as these endpoints
+ * do not allow requests from browsers.
+ *
+ * @param url - The URL of the endpoint.
+ * @param body - The parameters.
+ * @returns {Promise<OAuthResponse>} The response.
+ */
+async function postOAuth(
+	url: string,
+	body: Record<string, string>,
+): Promise<OAuthResponse> {
+	const response = await requestUrl({
+		url,
+		method: "POST",
+		contentType: "application/json",
+		headers: { Accept: "application/json" },
+		body: JSON.stringify(body),
+		throw: false,
+	});
+	try {
+		return response.json as OAuthResponse;
+	} catch {
+		throw new Error(`GitHub responded with status ${response.status}`);
+	}
+}
+
+/**
+ * Converts an OAuth token response to a token.
+ *
+ * @param data - The response of the token endpoint.
+ * @returns The token.
+ * @throws An error with the description of GitHub if the response is an error.
+ */
+function toOAuthToken(data: OAuthResponse): OAuthToken {
+	if (!data.access_token) {
+		throw new Error(data.error_description || data.error || "no token");
+	}
+	const now = Date.now();
+	return {
+		accessToken: data.access_token,
+		refreshToken: data.refresh_token,
+		expiresAt: data.expires_in ? now + data.expires_in * 1000 : undefined,
+		refreshTokenExpiresAt: data.refresh_token_expires_in
+			? now + data.refresh_token_expires_in * 1000
+			: undefined,
+	};
+}
+
+/**
+ * Starts the OAuth device flow: requests the code the user enters on GitHub.
+ *
+ * @param baseUrl - The base URL of the web interface of the host (e.g. "https://github.com").
+ * @param clientId - The client ID of the OAuth App or GitHub App.
+ * @returns {Promise<DeviceCode>} The device code.
+ */
+export async function requestDeviceCode(
+	baseUrl: string,
+	clientId: string,
+): Promise<DeviceCode> {
+	const data = await postOAuth(`${baseUrl}/login/device/code`, {
+		client_id: clientId,
+		scope: "repo",
+	});
+	if (!data.device_code || !data.user_code || !data.verification_uri) {
+		throw new Error(
+			data.error_description ||
+				data.error ||
+				"device flow not available, enable it in the settings of the app",
+		);
+	}
+	return {
+		deviceCode: data.device_code,
+		userCode: data.user_code,
+		verificationUri: data.verification_uri,
+		expiresAt: Date.now() + (data.expires_in ?? 900) * 1000,
+		interval: data.interval ?? 5,
+	};
+}
+
+/**
+ * Polls GitHub until the user entered the device code, and returns the access token.
+ *
+ * @param baseUrl - The base URL of the web interface of the host.
+ * @param clientId - The client ID of the OAuth App or GitHub App.
+ * @param device - The device code.
+ * @param signal - Aborts the polling.
+ * @returns {Promise<OAuthToken>} The access token.
+ * @throws An error if the code expired, the user denied access, or the polling was aborted.
+ */
+export async function pollDeviceToken(
+	baseUrl: string,
+	clientId: string,
+	device: DeviceCode,
+	signal: AbortSignal,
+): Promise<OAuthToken> {
+	let interval = device.interval;
+	while (Date.now() < device.expiresAt) {
+		await new Promise((resolve) =>
+			window.setTimeout(resolve, interval * 1000),
+		);
+		if (signal.aborted) throw new Error("sign in cancelled");
+
+		const data = await postOAuth(`${baseUrl}/login/oauth/access_token`, {
+			client_id: clientId,
+			device_code: device.deviceCode,
+			grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+		});
+		if (data.error === "authorization_pending") continue;
+		if (data.error === "slow_down") {
+			interval = data.interval ?? interval + 5;
+			continue;
+		}
+		return toOAuthToken(data);
+	}
+	throw new Error("the code expired, sign in again");
+}
+
+/**
+ * Refreshes an expired user access token.
+ *
+ * @param baseUrl - The base URL of the web interface of the host.
+ * @param clientId - The client ID of the GitHub App.
+ * @param token - The expired token, with its refresh token.
+ * @returns {Promise<OAuthToken>} The new token.
+ */
+export async function refreshOAuthToken(
+	baseUrl: string,
+	clientId: string,
+	token: OAuthToken,
+): Promise<OAuthToken> {
+	if (
+		!token.refreshToken ||
+		(token.refreshTokenExpiresAt &&
+			token.refreshTokenExpiresAt < Date.now())
+	) {
+		throw new Error("the GitHub session expired");
+	}
+	const data = await postOAuth(`${baseUrl}/login/oauth/access_token`, {
+		client_id: clientId,
+		refresh_token: token.refreshToken,
+		grant_type: "refresh_token",
+	});
+	return { ...toOAuthToken(data), login: token.login };
+}
+
+/**
+ * Encodes bytes or a text in base64url, as used by JSON Web Tokens.
+ *
+ * @param data - The bytes, or a text encoded as UTF-8.
+ * @returns The base64url encoded data.
+ */
+function base64Url(data: Uint8Array | string): string {
+	const bytes =
+		typeof data === "string" ? new TextEncoder().encode(data) : data;
+	let binary = "";
+	for (const byte of bytes) binary += String.fromCharCode(byte);
+	return window
+		.btoa(binary)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+/**
+ * Encodes a DER element.
+ *
+ * @param tag - The tag of the element.
+ * @param content - The content of the element.
+ * @returns The encoded element.
+ */
+function derElement(tag: number, content: Uint8Array): Uint8Array {
+	const length: number[] = [];
+	if (content.length < 0x80) {
+		length.push(content.length);
+	} else {
+		for (let n = content.length; n > 0; n = Math.floor(n / 256)) {
+			length.unshift(n % 256);
+		}
+		length.unshift(0x80 | length.length);
+	}
+	return Uint8Array.from([tag, ...length, ...content]);
+}
+
+/**
+ * Imports the private key of a GitHub App for signing JSON Web Tokens.
+ * GitHub provides PKCS#1 keys (`BEGIN RSA PRIVATE KEY`), which are wrapped in PKCS#8 for WebCrypto.
+ *
+ * @param pem - The private key in the PEM format (PKCS#1 or PKCS#8).
+ * @returns {Promise<CryptoKey>} The signing key.
+ */
+async function importAppKey(pem: string): Promise<CryptoKey> {
+	const match = pem.match(
+		/-----BEGIN (RSA )?PRIVATE KEY-----([\s\S]+?)-----END (RSA )?PRIVATE KEY-----/,
+	);
+	if (!match) throw new Error("invalid GitHub App private key");
+	let der = Uint8Array.from(window.atob(match[2].replace(/\s+/g, "")), (c) =>
+		c.charCodeAt(0),
+	);
+	if (match[1]) {
+		// PKCS#8: version, rsaEncryption algorithm identifier, then the PKCS#1 key
+		const rsaAlgorithm = [
+			0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01,
+			0x01, 0x01, 0x05, 0x00,
+		];
+		der = derElement(
+			0x30,
+			Uint8Array.from([
+				0x02,
+				0x01,
+				0x00,
+				...rsaAlgorithm,
+				...derElement(0x04, der),
+			]),
+		);
+	}
+	return window.crypto.subtle.importKey(
+		"pkcs8",
+		der,
+		{ name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+}
+
+/**
+ * Creates a JSON Web Token authenticating as a GitHub App, valid for a few minutes.
+ *
+ * @param appId - The ID (or client ID) of the GitHub App.
+ * @param privateKey - The private key of the GitHub App, in the PEM format.
+ * @returns {Promise<string>} The JSON Web Token.
+ */
+async function createAppJwt(
+	appId: string,
+	privateKey: string,
+): Promise<string> {
+	const now = Math.floor(Date.now() / 1000);
+	const unsigned = [
+		base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" })),
+		base64Url(
+			JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: appId }),
+		),
+	].join(".");
+	const signature = await window.crypto.subtle.sign(
+		"RSASSA-PKCS1-v1_5",
+		await importAppKey(privateKey),
+		new TextEncoder().encode(unsigned),
+	);
+	return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Creates an installation access token of a GitHub App, restricted to a repository.
+ *
+ * @param apiUrl - The base URL of the REST API.
+ * @param appId - The ID of the GitHub App.
+ * @param privateKey - The private key of the GitHub App, in the PEM format.
+ * @param installationId - The ID of the installation (empty to find the installation on the repository).
+ * @param owner - The owner of the repository.
+ * @param repo - The name of the repository.
+ * @returns {Promise<InstallationToken>} The installation access token.
+ * @throws An error if the app is not installed on the repository, or cannot write its contents.
+ */
+export async function createInstallationToken(
+	apiUrl: string,
+	appId: string,
+	privateKey: string,
+	installationId: string,
+	owner: string,
+	repo: string,
+): Promise<InstallationToken> {
+	const appOctokit: Octokit = createOctokit(
+		await createAppJwt(appId.trim(), privateKey),
+		apiUrl,
+	);
+
+	let id = Number(installationId.trim());
+	if (!id) {
+		try {
+			const { data } = await appOctokit.rest.apps.getRepoInstallation({
+				owner,
+				repo,
+			});
+			id = data.id;
+		} catch (e) {
+			if ((e as { status?: number }).status !== 404) throw e;
+			throw new Error(
+				`the GitHub App is not installed on ${owner}/${repo}`,
+			);
+		}
+	}
+
+	const { data } = await appOctokit.rest.apps.createInstallationAccessToken({
+		installation_id: id,
+		repositories: [repo],
+	});
+	if (data.permissions?.contents !== "write") {
+		throw new Error(
+			'the GitHub App cannot write to the repository, grant it the "Contents: read and write" permission',
+		);
+	}
+	return { token: data.token, expiresAt: Date.parse(data.expires_at) };
+}
+
+/**
+ * Checks that a token authenticates and can write to a repository.
+ *
+ * @param octokit - The Octokit instance authenticated with the token.
+ * @param owner - The owner of the repository.
+ * @param repo - The name of the repository.
+ * @returns {Promise<string>} A description of the access.
+ * @throws An error describing the missing access.
+ */
+export async function checkRepoAccess(
+	octokit: Octokit,
+	owner: string,
+	repo: string,
+): Promise<string> {
+	try {
+		const { data } = await octokit.rest.repos.get({ owner, repo });
+		// Installation tokens have no user permissions, their write access is checked on creation
+		if (data.permissions && !data.permissions.push) {
+			throw new Error(
+				`the token can read ${owner}/${repo} but cannot write to it`,
+			);
+		}
+		return `Write access to ${data.full_name}`;
+	} catch (e) {
+		const status = (e as { status?: number }).status;
+		if (status === 401) {
+			throw new Error("the token is invalid or expired");
+		}
+		if (status === 404) {
+			throw new Error(
+				`repository ${owner}/${repo} not found, or the token cannot access it`,
+			);
+		}
+		throw e;
+	}
+}
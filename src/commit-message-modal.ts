@@ -0,0 +1,65 @@
+import { App, Modal, Setting } from "obsidian";
+
+// Modal asking the user for the message of a publish commit
+export class CommitMessageModal extends Modal {
+	message: string; // Message being edited
+	onSubmit: (message: string | null) => void; // Called with the message, or null if cancelled
+	submitted = false; // Whether the user confirmed
+
+	/**
+	 * Creates an instance of the modal.
+	 * @param app - The application instance.
+	 * @param message - The initial message.
+	 * @param onSubmit - Callback called with the message when the user confirms, or null if they cancel.
+	 */
+	constructor(
+		app: App,
+		message: string,
+		onSubmit: (message: string | null) => void,
+	) {
+		super(app);
+		this.message = message;
+		this.onSubmit = onSubmit;
+	}
+
+	/**
+	 * Renders the message input, followed by the confirm and cancel buttons.
+	 */
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText("Commit message");
+
+		new Setting(contentEl).addTextArea((text) => {
+			text.setValue(this.message).onChange((value) => {
+				this.message = value;
+			});
+			text.inputEl.rows = 4;
+			text.inputEl.addClass("github-publisher-commit-message");
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Publish")
+					.setCta()
+					.onClick(() => {
+						this.submitted = true;
+						this.close();
+					}),
+			);
+	}
+
+	/**
+	 * Empties the modal when it is closed, and calls the callback.
+	 */
+	onClose(): void {
+		this.contentEl.empty();
+		this.onSubmit(
+			this.submitted && this.message.trim() ? this.message.trim() : null,
+		);
+	}
+}
@@ -0,0 +1,85 @@
+import { moment } from "obsidian";
+import { PublishPlan } from "./publish-plan";
+import { PublishProfile } from "./settings";
+
+// Maximum number of note titles listed by the {{notes}} placeholder
+const MAX_LISTED_NOTES = 10;
+
+/**
+ * Lists the titles of the notes changed by a plan, for the {{notes}} placeholder.
+ * Deleted notes are named after their repo path, as they may not exist in the vault anymore.
+ *
+ * @param plan - The publish plan.
+ * @returns The comma-separated titles (e.g. "Note A, Note B and 3 more").
+ */
+function changedNoteTitles(plan: PublishPlan): string {
+	const titles = plan.changes
+		.map((c) => c.file?.vaultPath ?? c.repoPath)
+		.filter((path) => path.toLowerCase().endsWith(".md"))
+		.map((path) => path.split("/").pop()?.replace(/\.md$/i, "") ?? path);
+	if (titles.length <= MAX_LISTED_NOTES) return titles.join(", ");
+	return `${titles.slice(0, MAX_LISTED_NOTES).join(", ")} and ${titles.length - MAX_LISTED_NOTES} more`;
+}
+
+/**
+ * Renders the commit message template of a profile for a publish plan.
+ *
+ * Supported placeholders: `{{date}}` (publish date and time), `{{added}}`, `{{modified}}` and
+ * `{{deleted}}` (numbers of files), `{{notes}}` (titles of the changed notes) and `{{profile}}`
+ * (name of the profile). Unknown placeholders are kept as is.
+ *
+ * @param template - The commit message template.
+ * @param plan - The publish plan.
+ * @returns The commit message.
+ */
+export function renderCommitMessage(
+	template: string,
+	plan: PublishPlan,
+): string {
+	const count = (action: string) =>
+		String(plan.changes.filter((c) => c.action === action).length);
+	const placeholders: Record<string, () => string> = {
+		date: () => moment().format("YYYY-MM-DD HH:mm"),
+		added: () => count("added"),
+		modified: () => count("modified"),
+		deleted: () => count("deleted"),
+		notes: () => changedNoteTitles(plan),
+		profile: () => plan.profile.name,
+	};
+	const message = template.replace(
+		/\{\{\s*(\w+)\s*\}\}/g,
+		(raw: string, name: string) => placeholders[name]?.() ?? raw,
+	);
+	return message.trim() || "Publish Obsidian → GitHub";
+}
+
+// Identity of the publish commits when the profile does not configure one
+export const PLUGIN_IDENTITY = {
+	name: "Obsidian GitHub Publisher",
+	email: "obsidian-bot@cyprien.io",
+};
+
+/**
+ * Returns the author and committer of the publish commits of a profile: the plugin, the
+ * configured name and email, or nothing, in which case GitHub uses the owner of the token.
+ * A custom identity without name or email falls back to the plugin.
+ *
+ * @param profile - The published profile.
+ * @returns The author and committer parameters of the commit.
+ */
+export function commitIdentity(profile: PublishProfile): {
+	author?: { name: string; email: string };
+	committer?: { name: string; email: string };
+} {
+	if (profile.commitAuthor === "token") return {};
+	const identity =
+		profile.commitAuthor === "custom" &&
+		profile.authorName.trim() &&
+		profile.authorEmail.trim()
+			? {
+					name: profile.authorName.trim(),
+					email: profile.authorEmail.trim(),
+				}
+			: PLUGIN_IDENTITY;
+	return { author: identity, committer: identity };
+}
@@ -0,0 +1,207 @@
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+import { diffLines } from "./diff";
+
+// How a conflict is resolved: publish the vault version, or pull the GitHub version into the vault
+export type ConflictResolution = "local" | "remote";
+
+// Interface for a file changed on GitHub since its last sync, that cannot be pulled as is
+export interface SyncConflict {
+	vaultPath: string; // Path in the Obsidian vault
+	repoPath: string; // Path in the GitHub repository
+	localChanged: boolean; // Whether the file also changed in the vault (otherwise it is transformed when published)
+	transformed: boolean; // Whether the note is transformed when published, so that the GitHub version cannot replace it
+	remoteSha: string; // Blob SHA of the GitHub version
+	remote: ArrayBuffer; // Content of the GitHub version
+	localText: string | null; // Content of the vault version, null if it is a binary file
+	remoteText: string | null; // Content of the GitHub version, null if it is a binary file
+}
+
+// Number of unchanged lines shown around the changes of a diff
+const DIFF_CONTEXT = 3;
+
+// Modal listing the files changed both on GitHub and in the vault, letting the user keep either version
+export class SyncConflictModal extends Modal {
+	profileName: string; // Name of the published profile
+	conflicts: SyncConflict[]; // Conflicts to resolve
+	onResolve: (
+		resolutions: Map<SyncConflict, ConflictResolution> | null,
+	) => void; // Called with the resolution of every conflict, or null if cancelled
+	resolutions = new Map<SyncConflict, ConflictResolution>(); // Resolutions chosen by the user
+	resolved = false; // Whether the user confirmed
+
+	/**
+	 * Creates an instance of the modal.
+	 * @param app - The application instance.
+	 * @param profileName - The name of the published profile.
+	 * @param conflicts - The conflicts to resolve.
+	 * @param onResolve - Callback called with the resolutions when the user confirms, or null if they cancel.
+	 */
+	constructor(
+		app: App,
+		profileName: string,
+		conflicts: SyncConflict[],
+		onResolve: (
+			resolutions: Map<SyncConflict, ConflictResolution> | null,
+		) => void,
+	) {
+		super(app);
+		this.profileName = profileName;
+		this.conflicts = conflicts;
+		this.onResolve = onResolve;
+	}
+
+	/**
+	 * Renders each conflict with buttons to keep either version or view their diff,
+	 * followed by the confirm and cancel buttons. The publish continues once every
+	 * conflict is resolved.
+	 */
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText(`Sync conflicts: ${this.profileName}`);
+		contentEl.createEl("p", {
+			text: "These files changed on GitHub since their last sync and cannot be pulled into the vault as is. Choose the version to keep.",
+		});
+
+		let continueButton: ButtonComponent | null = null;
+		const list = contentEl.createDiv({
+			cls: "github-publisher-conflict-list",
+		});
+		for (const conflict of this.conflicts) {
+			const item = list.createDiv({ cls: "github-publisher-conflict" });
+			const diffEl = createDiv({ cls: "github-publisher-diff" });
+			const buttons: Record<ConflictResolution, ButtonComponent | null> =
+				{
+					local: null,
+					remote: null,
+				};
+			const choose = (resolution: ConflictResolution) => {
+				this.resolutions.set(conflict, resolution);
+				buttons.local?.buttonEl.toggleClass(
+					"mod-cta",
+					resolution === "local",
+				);
+				buttons.remote?.buttonEl.toggleClass(
+					"mod-cta",
+					resolution === "remote",
+				);
+				continueButton?.setDisabled(
+					this.resolutions.size < this.conflicts.length,
+				);
+			};
+
+			new Setting(item)
+				.setName(conflict.vaultPath)
+				.setDesc(
+					(conflict.localChanged
+						? "Changed in the vault and on GitHub."
+						: "Changed on GitHub.") +
+						(conflict.transformed
+							? " The note is transformed when published, so the GitHub version cannot replace it: copy its changes to the note, then keep the vault version."
+							: ""),
+				)
+				.addButton((btn) =>
+					btn.setButtonText("View diff").onClick(() => {
+						if (diffEl.hasChildNodes()) diffEl.empty();
+						else this.renderDiff(diffEl, conflict);
+					}),
+				)
+				.addButton((btn) => {
+					buttons.local = btn
+						.setButtonText("Keep local")
+						.setTooltip("Publish the vault version to GitHub")
+						.onClick(() => choose("local"));
+				})
+				.addButton((btn) => {
+					buttons.remote = btn
+						.setButtonText("Keep remote")
+						.setTooltip(
+							conflict.transformed
+								? "Unavailable, the GitHub version is the published form of the note"
+								: "Replace the vault version with the GitHub version",
+						)
+						.setDisabled(conflict.transformed)
+						.onClick(() => choose("remote"));
+				});
+			item.appendChild(diffEl);
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) => {
+				continueButton = btn
+					.setButtonText("Continue publish")
+					.setCta()
+					.setDisabled(true)
+					.onClick(() => {
+						this.resolved = true;
+						this.close();
+					});
+			});
+	}
+
+	/**
+	 * Renders the diff from the vault version to the GitHub version of a file, showing only
+	 * the changed lines and a few lines around them.
+	 *
+	 * @param el - The element to render the diff in.
+	 * @param conflict - The conflict.
+	 */
+	private renderDiff(el: HTMLElement, conflict: SyncConflict): void {
+		if (conflict.localText === null || conflict.remoteText === null) {
+			el.createDiv({
+				text: "Binary file, no diff available.",
+				cls: "github-publisher-diff-empty",
+			});
+			return;
+		}
+		const lines = diffLines(conflict.localText, conflict.remoteText);
+		const changed = lines.map((line) => line.type !== "same");
+		const nearChange = (index: number) =>
+			changed
+				.slice(
+					Math.max(0, index - DIFF_CONTEXT),
+					index + DIFF_CONTEXT + 1,
+				)
+				.includes(true);
+
+		el.createDiv({
+			text: "- Vault, + GitHub",
+			cls: "github-publisher-diff-legend",
+		});
+		let skipped = false;
+		for (const [index, line] of lines.entries()) {
+			if (!nearChange(index)) {
+				if (!skipped) {
+					el.createDiv({
+						text: "…",
+						cls: "github-publisher-diff-skip",
+					});
+				}
+				skipped = true;
+				continue;
+			}
+			skipped = false;
+			const prefix =
+				line.type === "added"
+					? "+"
+					: line.type === "removed"
+						? "-"
+						: " ";
+			el.createDiv({
+				text: `${prefix} ${line.text}`,
+				cls: ["github-publisher-diff-line", `mod-${line.type}`],
+			});
+		}
+	}
+
+	/**
+	 * Empties the modal when it is closed, and calls the callback.
+	 */
+	onClose(): void {
+		this.contentEl.empty();
+		this.onResolve(this.resolved ? this.resolutions : null);
+	}
+}
@@ -0,0 +1,159 @@
+import { Octokit } from "@octokit/rest";
+import { checkRepoAccess } from "./auth";
+import { parseRepoUrl, RepoLocation } from "./github";
+import { PublishProfile } from "./settings";
+
+// Outcome of a check of the connection test
+export type CheckStatus = "success" | "error" | "skipped";
+
+// Interface for a check of the connection test
+export interface ConnectionCheck {
+	label: string; // What is checked
+	status: CheckStatus; // Outcome of the check
+	message: string; // Details of the outcome
+}
+
+// Interface for the result of a connection test
+export interface ConnectionTestResult {
+	checks: ConnectionCheck[]; // Checks, in the order they ran
+	missingBranch?: string; // Branch to publish to, if it does not exist
+}
+
+/**
+ * Returns the message of an error.
+ *
+ * @param error - The error.
+ * @returns The message.
+ */
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Tests the settings of a profile against its repository: the URL parses, the token
+ * authenticates, the repository exists and is writable, and the branch exists.
+ * Checks after a failed one are skipped.
+ *
+ * @param profile - The profile to test.
+ * @param connect - Creates the Octokit instance authenticated for the profile.
+ * @returns {Promise<ConnectionTestResult>} The result of each check.
+ */
+export async function testConnection(
+	profile: PublishProfile,
+	connect: (location: RepoLocation) => Promise<Octokit>,
+): Promise<ConnectionTestResult> {
+	const result: ConnectionTestResult = { checks: [] };
+	const labels = ["Repository URL", "Authentication", "Repository", "Branch"];
+	const check = (status: CheckStatus, message: string) => {
+		result.checks.push({
+			label: labels[result.checks.length],
+			status,
+			message,
+		});
+		return status === "success";
+	};
+	const skipRemaining = () => {
+		while (result.checks.length < labels.length) {
+			check("skipped", "Skipped");
+		}
+		return result;
+	};
+
+	// Repository URL
+	let location: RepoLocation;
+	try {
+		location = parseRepoUrl(profile.repoUrl);
+		check(
+			"success",
+			`${location.owner}/${location.repo} on ${location.host}`,
+		);
+	} catch (e) {
+		check("error", errorMessage(e));
+		return skipRemaining();
+	}
+	const { owner, repo } = location;
+
+	// Authentication (installation tokens of GitHub Apps are checked on creation)
+	let octokit: Octokit;
+	try {
+		octokit = await connect(location);
+		if (profile.authMethod === "app") {
+			check("success", "Installation token of the GitHub App created");
+		} else {
+			const { data } = await octokit.rest.users.getAuthenticated();
+			check("success", `Authenticated as ${data.login}`);
+		}
+	} catch (e) {
+		const status = (e as { status?: number }).status;
+		check(
+			"error",
+			status === 401
+				? "the token is invalid or expired"
+				: errorMessage(e),
+		);
+		return skipRemaining();
+	}
+
+	// Repository and write access
+	try {
+		check("success", await checkRepoAccess(octokit, owner, repo));
+	} catch (e) {
+		check("error", errorMessage(e));
+		return skipRemaining();
+	}
+
+	// Branch
+	const branch = profile.repoBranch.trim();
+	try {
+		await octokit.rest.repos.getBranch({ owner, repo, branch });
+		check("success", `Branch ${branch} exists`);
+	} catch (e) {
+		if ((e as { status?: number }).status !== 404) {
+			check("error", errorMessage(e));
+		} else {
+			check("error", `Branch ${branch} does not exist`);
+			result.missingBranch = branch;
+		}
+	}
+	return result;
+}
+
+/**
+ * Creates a branch from the head of the default branch of a repository.
+ *
+ * @param octokit - The authenticated Octokit instance.
+ * @param owner - The owner of the repository.
+ * @param repo - The name of the repository.
+ * @param branch - The name of the branch to create.
+ * @returns {Promise<void>} Resolves when the branch is created.
+ * @throws An error if the repository is empty, as there is no commit to branch from.
+ */
+export async function createBranch(
+	octokit: Octokit,
+	owner: string,
+	repo: string,
+	branch: string,
+): Promise<void> {
+	const { data: repository } = await octokit.rest.repos.get({ owner, repo });
+	let sha: string;
+	try {
+		const { data } = await octokit.rest.git.getRef({
+			owner,
+			repo,
+			ref: `heads/${repository.default_branch}`,
+		});
+		sha = data.object.sha;
+	} catch (e) {
+		const status = (e as { status?: number }).status;
+		if (status !== 404 && status !== 409) throw e;
+		throw new Error(
+			"the repository is empty, push a first commit to it before publishing",
+		);
+	}
+	await octokit.rest.git.createRef({
+		owner,
+		repo,
+		ref: `refs/heads/${branch}`,
+		sha,
+	});
+}
@@ -0,0 +1,70 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { DeviceCode } from "./auth";
+
+// Modal showing the code to enter on GitHub while signing in with the device flow
+export class DeviceFlowModal extends Modal {
+	device: DeviceCode; // Device code of the sign in
+	onCancel: () => void; // Called when the user closes the modal before signing in
+	finished = false; // Whether the sign in finished, so closing the modal does not cancel it
+
+	/**
+	 * Creates an instance of the modal.
+	 * @param app - The application instance.
+	 * @param device - The device code to show.
+	 * @param onCancel - Callback called when the user closes the modal before signing in.
+	 */
+	constructor(app: App, device: DeviceCode, onCancel: () => void) {
+		super(app);
+		this.device = device;
+		this.onCancel = onCancel;
+	}
+
+	/**
+	 * Renders the code with a copy button, and the link to the page where it is entered.
+	 */
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText("Sign in with GitHub");
+
+		contentEl.createEl("p", {
+			text: "Enter this code on GitHub to authorize the plugin. This window closes once you are signed in.",
+		});
+		contentEl.createEl("p", {
+			text: this.device.userCode,
+			cls: "github-publisher-device-code",
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Copy code").onClick(async () => {
+					await navigator.clipboard.writeText(this.device.userCode);
+					new Notice("Code copied");
+				}),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Open GitHub")
+					.setCta()
+					.onClick(() => {
+						window.open(this.device.verificationUri);
+					}),
+			);
+	}
+
+	/**
+	 * Closes the modal once the sign in finished, without cancelling it.
+	 */
+	finish(): void {
+		this.finished = true;
+		this.close();
+	}
+
+	/**
+	 * Empties the modal when it is closed, and cancels the sign in if it did not finish.
+	 */
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.finished) this.onCancel();
+	}
+}
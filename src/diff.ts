@@ -0,0 +1,88 @@
+// Interface for a line of a diff
+export interface DiffLine {
+	type: "same" | "added" | "removed"; // Whether the line is in both texts, only in the new one, or only in the old one
+	text: string; // Content of the line
+}
+
+// Maximum size of the comparison table, beyond which the changed lines are not matched
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Computes a line diff between two texts, from their longest common subsequence of lines.
+ * Very different long texts are shown as entirely removed then added.
+ *
+ * @param oldText - The old text.
+ * @param newText - The new text.
+ * @returns The lines of both texts, in order.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = oldText.split("\n");
+	const b = newText.split("\n");
+
+	// Lines shared at the start and end of both texts are not compared
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let end = 0;
+	while (
+		end < a.length - start &&
+		end < b.length - start &&
+		a[a.length - 1 - end] === b[b.length - 1 - end]
+	) {
+		end++;
+	}
+	const same = (text: string): DiffLine => ({ type: "same", text });
+	const head = a.slice(0, start).map(same);
+	const tail = a.slice(a.length - end).map(same);
+	const oldLines = a.slice(start, a.length - end);
+	const newLines = b.slice(start, b.length - end);
+
+	const removed = oldLines.map(
+		(text): DiffLine => ({ type: "removed", text }),
+	);
+	const added = newLines.map((text): DiffLine => ({ type: "added", text }));
+	if (
+		oldLines.length === 0 ||
+		newLines.length === 0 ||
+		oldLines.length * newLines.length > MAX_DIFF_CELLS
+	) {
+		return [...head, ...removed, ...added, ...tail];
+	}
+
+	// lengths[i][j]: length of the common subsequence of oldLines[i..] and newLines[j..]
+	const lengths = Array.from(
+		{ length: oldLines.length + 1 },
+		() => new Uint32Array(newLines.length + 1),
+	);
+	for (let i = oldLines.length - 1; i >= 0; i--) {
+		for (let j = newLines.length - 1; j >= 0; j--) {
+			lengths[i][j] =
+				oldLines[i] === newLines[j]
+					? lengths[i + 1][j + 1] + 1
+					: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const middle: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < oldLines.length && j < newLines.length) {
+		if (oldLines[i] === newLines[j]) {
+			middle.push(same(oldLines[i]));
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			middle.push(removed[i++]);
+		} else {
+			middle.push(added[j++]);
+		}
+	}
+	return [
+		...head,
+		...middle,
+		...removed.slice(i),
+		...added.slice(j),
+		...tail,
+	];
+}
@@ -0,0 +1,72 @@
+import { App } from "obsidian";
+import { FilePublishStatus } from "./publish-status";
+
+// Decorations of the file explorer showing the publish state of the files of the publish selections
+export class ExplorerDecorations {
+	app: App; // Obsidian App instance
+	getStatus: (path: string) => FilePublishStatus | undefined; // Returns the publish state of a file
+	private observers = new Map<HTMLElement, MutationObserver>(); // File explorer element -> observer decorating its new items
+
+	/**
+	 * Creates the decorations.
+	 * @param app - The Obsidian App instance.
+	 * @param getStatus - Returns the publish state of a file, if it is in a publish selection.
+	 */
+	constructor(
+		app: App,
+		getStatus: (path: string) => FilePublishStatus | undefined,
+	) {
+		this.app = app;
+		this.getStatus = getStatus;
+	}
+
+	/**
+	 * Decorates the items of every open file explorer, and watches them to decorate the items
+	 * shown later (e.g. when a folder is expanded).
+	 */
+	refresh(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(
+			"file-explorer",
+		)) {
+			const el = leaf.view.containerEl;
+			if (!this.observers.has(el)) {
+				const observer = new MutationObserver(() => this.decorate(el));
+				observer.observe(el, { childList: true, subtree: true });
+				this.observers.set(el, observer);
+			}
+			this.decorate(el);
+		}
+	}
+
+	/**
+	 * Stops watching the file explorers and removes the decorations.
+	 */
+	detach(): void {
+		for (const [el, observer] of this.observers) {
+			observer.disconnect();
+			el.querySelectorAll<HTMLElement>(
+				".nav-file-title[data-github-publisher]",
+			).forEach((title) =>
+				title.removeAttribute("data-github-publisher"),
+			);
+		}
+		this.observers.clear();
+	}
+
+	/**
+	 * Sets the publish state of the file items of a file explorer.
+	 *
+	 * @param el - The file explorer element.
+	 */
+	private decorate(el: HTMLElement): void {
+		el.querySelectorAll<HTMLElement>(".nav-file-title[data-path]").forEach(
+			(title) => {
+				const status = this.getStatus(title.dataset.path ?? "")?.status;
+				if (status === title.getAttribute("data-github-publisher"))
+					return;
+				if (status) title.setAttr("data-github-publisher", status);
+				else title.removeAttribute("data-github-publisher");
+			},
+		);
+	}
+}
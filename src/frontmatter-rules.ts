@@ -0,0 +1,198 @@
+import { parseYaml, stringifyYaml, TFile } from "obsidian";
+import { ContentTransform } from "./transforms";
+
+// Interface for a field injected in the frontmatter
+export interface InjectedField {
+	key: string; // Key of the field
+	value: string; // Value of the field, may contain placeholders ({{basename}}, {{ctime}}, {{mtime}}, {{path}})
+}
+
+// Interface for a renamed frontmatter key
+export interface RenamedKey {
+	from: string; // Key in the note
+	to: string; // Key in the published file
+}
+
+// Interface for the frontmatter transformation rules of a profile
+export interface FrontmatterRules {
+	inject: InjectedField[]; // Fields added when missing
+	rename: RenamedKey[]; // Keys renamed
+	drop: string[]; // Keys removed (dot notation for nested keys, e.g. "author.email")
+	strip: boolean; // Remove the frontmatter entirely
+}
+
+// Rules presets for static site generators
+export const FRONTMATTER_PRESETS: Record<string, FrontmatterRules> = {
+	hugo: {
+		inject: [
+			{ key: "title", value: "{{basename}}" },
+			{ key: "date", value: "{{ctime}}" },
+			{ key: "lastmod", value: "{{mtime}}" },
+		],
+		rename: [],
+		drop: ["publish", "aliases", "cssclasses", "private"],
+		strip: false,
+	},
+	jekyll: {
+		inject: [
+			{ key: "title", value: "{{basename}}" },
+			{ key: "date", value: "{{ctime}}" },
+			{ key: "last_modified_at", value: "{{mtime}}" },
+		],
+		rename: [],
+		drop: ["publish", "cssclasses", "private"],
+		strip: false,
+	},
+	astro: {
+		inject: [
+			{ key: "title", value: "{{basename}}" },
+			{ key: "pubDate", value: "{{ctime}}" },
+			{ key: "updatedDate", value: "{{mtime}}" },
+		],
+		rename: [],
+		drop: ["publish", "aliases", "cssclasses", "private"],
+		strip: false,
+	},
+};
+
+// Matches the frontmatter block at the start of a note
+const FRONTMATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Checks whether the rules would leave every note untouched.
+ *
+ * @param rules - The frontmatter rules.
+ * @returns True if there is nothing to apply.
+ */
+export function isEmptyRules(rules: FrontmatterRules): boolean {
+	return (
+		!rules.strip &&
+		rules.inject.length === 0 &&
+		rules.rename.length === 0 &&
+		rules.drop.length === 0
+	);
+}
+
+/**
+ * Resolves the placeholders of an injected value for a file.
+ * Values without placeholders are parsed as YAML, so that booleans, numbers and lists keep their type.
+ *
+ * @param value - The configured value.
+ * @param file - The vault file, used for dates and names.
+ * @returns The resolved value.
+ */
+function resolveValue(value: string, file: TFile): unknown {
+	const placeholders: Record<string, string> = {
+		basename: file.basename,
+		path: file.path,
+		ctime: new Date(file.stat.ctime).toISOString(),
+		mtime: new Date(file.stat.mtime).toISOString(),
+	};
+	if (/\{\{\s*\w+\s*\}\}/.test(value)) {
+		return value.replace(
+			/\{\{\s*(\w+)\s*\}\}/g,
+			(raw: string, name: string) => placeholders[name] ?? raw,
+		);
+	}
+	try {
+		return parseYaml(value) as unknown;
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * Removes a key from an object, using dot notation for nested keys.
+ *
+ * @param obj - The object to modify.
+ * @param path - The key (e.g. "private" or "author.email").
+ * @returns True if the key was removed.
+ */
+function deletePath(obj: Record<string, unknown>, path: string): boolean {
+	const [head, ...rest] = path.split(".");
+	if (!(head in obj)) return false;
+	if (rest.length === 0) {
+		delete obj[head];
+		return true;
+	}
+	const child = obj[head];
+	if (!child || typeof child !== "object") return false;
+	return deletePath(child as Record<string, unknown>, rest.join("."));
+}
+
+/**
+ * Checks whether a parsed YAML value is a mapping of keys to values.
+ *
+ * @param value - The parsed value.
+ * @returns True if the value is a plain object.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (!value || typeof value !== "object") return false;
+	const prototype = Object.getPrototypeOf(value) as unknown;
+	return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Creates the transformation step applying the frontmatter rules of a profile.
+ *
+ * Keys are renamed first, then dropped, then missing fields are injected. If the frontmatter
+ * is stripped, the other rules are ignored. Notes left untouched by the rules keep their
+ * original frontmatter formatting.
+ *
+ * @param rules - The frontmatter rules.
+ * @returns The transformation step.
+ */
+export function frontmatterRulesTransform(
+	rules: FrontmatterRules,
+): ContentTransform {
+	return (content, file, context) => {
+		const match = content.match(FRONTMATTER_REGEX);
+		const body = match ? content.slice(match[0].length) : content;
+		if (rules.strip) return body;
+
+		const vaultFile = context.app.vault.getAbstractFileByPath(
+			file.vaultPath,
+		);
+		if (!(vaultFile instanceof TFile)) return content;
+
+		let parsed: unknown;
+		try {
+			parsed = (match?.[1] ? parseYaml(match[1]) : null) ?? {};
+		} catch (e) {
+			context.warnings.push(
+				`${file.vaultPath}: invalid frontmatter, rules not applied (${String(e)})`,
+			);
+			return content;
+		}
+		// A frontmatter that is a value or a list has no keys to apply the rules to
+		if (!isPlainObject(parsed)) {
+			context.warnings.push(
+				`${file.vaultPath}: frontmatter is a single value or a list, rules not applied`,
+			);
+			return content;
+		}
+		const frontmatter = parsed;
+
+		let modified = false;
+		for (const { from, to } of rules.rename) {
+			if (from in frontmatter && !(to in frontmatter)) {
+				frontmatter[to] = frontmatter[from];
+				delete frontmatter[from];
+				modified = true;
+			}
+		}
+		for (const key of rules.drop) {
+			modified = deletePath(frontmatter, key) || modified;
+		}
+		for (const { key, value } of rules.inject) {
+			if (!(key in frontmatter)) {
+				frontmatter[key] = resolveValue(value, vaultFile);
+				modified = true;
+			}
+		}
+
+		if (!modified) return content;
+		if (Object.keys(frontmatter).length === 0) return body;
+		return `---\n${stringifyYaml(frontmatter)}---\n${body}`;
+	};
+}
@@ -0,0 +1,86 @@
+import { App, TFile } from "obsidian";
+
+// Publishing controls declared in the frontmatter of a note
+export interface PublishControls {
+	publish?: boolean | string[]; // `publish: true` publishes the note, `publish: false` never publishes it, a list of profile names publishes it only with these profiles
+	draft: boolean; // `draft: true` marks the note as a draft, not published by default
+	permalink?: string; // Path of the note in the repo, relative to the target folder
+	slug?: string; // File name of the note in the repo (without extension)
+}
+
+/**
+ * Converts a frontmatter value to a boolean, accepting booleans and "true"/"false" strings.
+ *
+ * @param value - The frontmatter value.
+ * @returns The boolean value, or undefined if the value is not a boolean.
+ */
+function toBoolean(value: unknown): boolean | undefined {
+	if (typeof value === "boolean") return value;
+	if (typeof value === "string") {
+		if (value.trim().toLowerCase() === "true") return true;
+		if (value.trim().toLowerCase() === "false") return false;
+	}
+	return undefined;
+}
+
+/**
+ * Converts the `publish` frontmatter value: a boolean, or a list of profile names.
+ *
+ * @param value - The frontmatter value.
+ * @returns The boolean or the profile names, or undefined if the value is empty.
+ */
+function toPublishValue(value: unknown): boolean | string[] | undefined {
+	const bool = toBoolean(value);
+	if (bool !== undefined) return bool;
+	const names = (Array.isArray(value) ? value : [value])
+		.map(toNonEmptyString)
+		.filter((name): name is string => name !== undefined);
+	return names.length > 0 ? names : undefined;
+}
+
+/**
+ * Converts a frontmatter value to a non-empty string.
+ *
+ * @param value - The frontmatter value.
+ * @returns The trimmed string, or undefined if the value is empty or not a string.
+ */
+function toNonEmptyString(value: unknown): string | undefined {
+	if (typeof value !== "string" && typeof value !== "number")
+		return undefined;
+	const str = String(value).trim();
+	return str ? str : undefined;
+}
+
+/**
+ * Reads the publishing controls declared in the frontmatter of a note, using the MetadataCache.
+ *
+ * @param app - The Obsidian App instance.
+ * @param file - The note.
+ * @returns The publishing controls (all unset for files without frontmatter).
+ */
+export function getPublishControls(app: App, file: TFile): PublishControls {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+	if (!frontmatter) return { draft: false };
+	return {
+		publish: toPublishValue(frontmatter.publish),
+		draft: toBoolean(frontmatter.draft) ?? false,
+		permalink: toNonEmptyString(frontmatter.permalink),
+		slug: toNonEmptyString(frontmatter.slug),
+	};
+}
+
+/**
+ * Checks how the frontmatter of a note requests it to be published with a profile.
+ *
+ * @param controls - The publishing controls of the note.
+ * @param profileName - The name of the published profile.
+ * @returns True if the note must be published, false if it must not, undefined if it does not say.
+ */
+export function isPublishRequested(
+	controls: PublishControls,
+	profileName: string,
+): boolean | undefined {
+	if (!Array.isArray(controls.publish)) return controls.publish;
+	const name = profileName.toLowerCase();
+	return controls.publish.some((n) => n.toLowerCase() === name);
+}
@@ -0,0 +1,292 @@
+import { Octokit } from "@octokit/rest";
+
+// Maximum number of attempts of a request failing with a transient error
+const MAX_ATTEMPTS = 5;
+
+// Longest wait before retrying a request, in milliseconds (longer rate limits fail the request)
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+// Wait recommended by GitHub after a secondary rate limit without retry-after header, in milliseconds
+const SECONDARY_RATE_LIMIT_DELAY = 60 * 1000;
+
+// Writes that can be repeated once applied: creating a blob returns the existing one, and
+// updating a branch to the SHA it already points to leaves it unchanged
+const IDEMPOTENT_WRITES = [
+	"POST /repos/{owner}/{repo}/git/blobs",
+	"PATCH /repos/{owner}/{repo}/git/refs/{ref}",
+];
+
+// Interface for a repository located from its URL
+export interface RepoLocation {
+	host: string; // Host of the web interface (with port, if any)
+	baseUrl: string; // Base URL of the web interface
+	owner: string; // Owner of the repository
+	repo: string; // Name of the repository
+	webUrl: string; // URL of the repository in the web interface
+	apiUrl: string; // Base URL of the REST API derived from the host
+}
+
+/**
+ * Parses the URL of a repository hosted on GitHub, GitHub Enterprise Server or another host
+ * implementing the GitHub REST API, including the Git Data endpoints that create blobs, trees
+ * and commits (which Gitea and Forgejo do not).
+ *
+ * HTTPS (`https://host/owner/repo`) and SSH (`git@host:owner/repo.git`, `ssh://git@host/owner/repo.git`)
+ * forms are accepted. On github.com, the owner and repository are the first two segments of
+ * the path, so that the URL of a page of the repository (e.g. `/owner/repo/tree/main`) is
+ * accepted. On other hosts, they are the last two segments, the segments before them are
+ * kept for hosts installed under a sub-path.
+ * The API base URL is `https://api.github.com` for github.com, and `<host>/api/v3` (the
+ * GitHub Enterprise Server API) for other hosts.
+ *
+ * @param repoUrl - The URL of the repository.
+ * @returns The location of the repository.
+ * @throws An error if the URL is not a repository URL.
+ */
+export function parseRepoUrl(repoUrl: string): RepoLocation {
+	const url = repoUrl.trim();
+	let protocol = "https:";
+	let host: string;
+	let path: string;
+
+	const scpLike = url.match(/^[\w.-]+@([^:/]+):(.+)$/);
+	if (scpLike) {
+		host = scpLike[1];
+		path = scpLike[2];
+	} else {
+		let parsed: URL;
+		try {
+			parsed = new URL(url.includes("://") ? url : `https://${url}`);
+		} catch {
+			throw new Error("Invalid repository URL");
+		}
+		if (parsed.protocol === "http:") protocol = "http:";
+		// The port of SSH URLs is not the port of the web interface
+		host = parsed.protocol === "ssh:" ? parsed.hostname : parsed.host;
+		path = decodeURIComponent(parsed.pathname);
+	}
+
+	const segments = path
+		.replace(/\.git\/?$/i, "")
+		.split("/")
+		.filter((segment) => segment);
+	if (!host || segments.length < 2) {
+		throw new Error("Invalid repository URL");
+	}
+	const isGitHub = /^(www\.)?github\.com$/i.test(host);
+	if (isGitHub) segments.splice(2);
+	const repo = segments.pop() as string;
+	const owner = segments.pop() as string;
+	const base = `${protocol}//${host.toLowerCase()}${segments.map((s) => `/${s}`).join("")}`;
+
+	return {
+		host: isGitHub ? "github.com" : host.toLowerCase(),
+		baseUrl: isGitHub ? "https://github.com" : base,
+		owner,
+		repo,
+		webUrl: `${isGitHub ? "https://github.com" : base}/${owner}/${repo}`,
+		apiUrl: isGitHub ? "https://api.github.com" : `${base}/api/v3`,
+	};
+}
+
+/**
+ * Checks that a branch name is valid, following the rules of `git check-ref-format`.
+ *
+ * @param branch - The name of the branch.
+ * @returns The reason the name is invalid, or null if it is valid.
+ */
+export function branchNameError(branch: string): string | null {
+	if (!branch) return "the branch name is empty";
+	if (/[\s~^:?*[\\]/.test(branch)) {
+		return "branch names cannot contain spaces or any of ~^:?*[\\";
+	}
+	if (
+		branch.includes("..") ||
+		branch.includes("@{") ||
+		branch.includes("//") ||
+		branch === "@" ||
+		/^[-/.]|[/.]$|\.lock$|\/\./.test(branch)
+	) {
+		return `${branch} is not a valid branch name`;
+	}
+	return null;
+}
+
+// Interface for the fields of Octokit request errors used to decide on retries
+interface RequestErrorLike {
+	status?: number; // HTTP status (500 for network errors)
+	message?: string; // Error message
+	response?: { headers?: Record<string, string | number | undefined> }; // Response, if any
+}
+
+/**
+ * Computes how long to wait before retrying a failed request.
+ *
+ * Rate limits (429, or 403 with rate limit headers or message) are retried after the delay given
+ * by the `retry-after` or `x-ratelimit-reset` headers, the request having been rejected. Server
+ * and network errors (5xx) are retried with an exponential backoff, only for idempotent requests:
+ * the server may have applied the request before failing. Other errors are not retried.
+ *
+ * @param error - The request error.
+ * @param attempt - The number of the failed attempt, starting at 1.
+ * @param idempotent - Whether the request can be repeated once applied.
+ * @returns The delay in milliseconds, or null if the request must not be retried.
+ */
+function retryDelay(
+	error: unknown,
+	attempt: number,
+	idempotent: boolean,
+): number | null {
+	const { status, message, response } = error as RequestErrorLike;
+	const headers = response?.headers ?? {};
+	const retryAfter = Number(headers["retry-after"]);
+	const remaining = headers["x-ratelimit-remaining"];
+	const reset = Number(headers["x-ratelimit-reset"]);
+
+	let delay: number | null = null;
+	if (status === 429 || status === 403) {
+		if (retryAfter > 0) {
+			delay = retryAfter * 1000;
+		} else if (String(remaining) === "0" && reset > 0) {
+			delay = Math.max(reset * 1000 - Date.now(), 0) + 1000;
+		} else if (status === 429 || /rate limit/i.test(message ?? "")) {
+			delay = SECONDARY_RATE_LIMIT_DELAY;
+		}
+	} else if (idempotent && status !== undefined && status >= 500) {
+		delay = 1000 * 2 ** (attempt - 1) * (1 + Math.random() / 2);
+	}
+
+	return delay !== null && delay <= MAX_RETRY_DELAY ? delay : null;
+}
+
+/**
+ * Waits for a delay, unless aborted.
+ *
+ * @param delay - The delay in milliseconds.
+ * @param signal - Aborts the wait.
+ * @returns {Promise<void>} Resolves after the delay, rejects with the abort reason if aborted.
+ */
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			window.clearTimeout(timeoutId);
+			reject(signal?.reason as Error);
+		};
+		const timeoutId = window.setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, delay);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Creates an Octokit instance whose requests are retried on rate limits and transient errors.
+ *
+ * @param token - The GitHub token.
+ * @param baseUrl - The base URL of the REST API.
+ * @param signal - Aborts the in-flight requests and the waits before retries (none if never aborted).
+ * @returns The Octokit instance.
+ */
+export function createOctokit(
+	token: string,
+	baseUrl: string,
+	signal?: AbortSignal,
+): Octokit {
+	const octokit = new Octokit({
+		auth: token,
+		baseUrl: baseUrl.replace(/\/+$/, ""),
+	});
+	octokit.hook.wrap("request", async (request, options) => {
+		if (signal) options.request = { ...options.request, signal };
+		const method = options.method.toUpperCase();
+		const idempotent =
+			method === "GET" ||
+			method === "HEAD" ||
+			IDEMPOTENT_WRITES.includes(`${method} ${options.url}`);
+		for (let attempt = 1; ; attempt++) {
+			signal?.throwIfAborted();
+			try {
+				return await request(options);
+			} catch (e) {
+				if (signal?.aborted) throw signal.reason;
+				const delay =
+					attempt < MAX_ATTEMPTS
+						? retryDelay(e, attempt, idempotent)
+						: null;
+				if (delay === null) throw e;
+				await sleep(delay, signal);
+			}
+		}
+	});
+	return octokit;
+}
+
+/**
+ * Returns the identity of the owner of the token of an Octokit instance, as used by GitHub
+ * for commits created without author. Users hiding their email get their no-reply email.
+ *
+ * @param octokit - The Octokit instance.
+ * @returns {Promise<{ name: string; email: string }>} The name and email of the owner of the token.
+ */
+export async function tokenOwnerIdentity(
+	octokit: Octokit,
+): Promise<{ name: string; email: string }> {
+	const { data } = await octokit.rest.users.getAuthenticated();
+	return {
+		name: data.name || data.login,
+		email:
+			data.email || `${data.id}+${data.login}@users.noreply.github.com`,
+	};
+}
+
+/**
+ * Checks whether an error is the rejection of a branch update that is not a fast-forward,
+ * meaning the branch was updated by someone else in the meantime.
+ *
+ * @param error - The request error.
+ * @returns True if the branch update was not a fast-forward.
+ */
+export function isNonFastForwardError(error: unknown): boolean {
+	const { status, message } = error as RequestErrorLike;
+	return status === 422 && /fast.forward/i.test(message ?? "");
+}
+
+/**
+ * Maps items with an asynchronous function, running at most `limit` calls at the same time.
+ * The first failure is thrown once the calls already running have settled.
+ *
+ * @param items - The items to map.
+ * @param limit - The maximum number of concurrent calls.
+ * @param fn - The asynchronous function.
+ * @returns {Promise<R[]>} The results, in the order of the items.
+ */
+export async function mapConcurrent<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array<R>(items.length);
+	let next = 0;
+	let failed = false;
+	const worker = async () => {
+		while (!failed && next < items.length) {
+			const index = next++;
+			try {
+				results[index] = await fn(items[index]);
+			} catch (e) {
+				failed = true;
+				throw e;
+			}
+		}
+	};
+	const workers = Array.from(
+		{ length: Math.min(limit, items.length) },
+		worker,
+	);
+	const settled = await Promise.allSettled(workers);
+	for (const result of settled) {
+		if (result.status === "rejected") throw result.reason;
+	}
+	return results;
+}
@@ -0,0 +1,81 @@
+/**
+ * Converts a glob pattern to a regular expression.
+ *
+ * Supported syntax: `**` matches any number of folders, `*` matches any characters except `/`,
+ * and `?` matches a single character except `/`. As with `.gitignore`, a pattern without `/`
+ * matches the file or folder name at any depth.
+ *
+ * @param pattern - The glob pattern (e.g. `content/**`, `*.yml`, `_config.yml`).
+ * @returns The regular expression matching the paths selected by the pattern.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	const trimmed = pattern.trim().replace(/^\/+/, "");
+	let source = "";
+	for (let i = 0; i < trimmed.length; i++) {
+		const char = trimmed[i];
+		if (char === "*" && trimmed[i + 1] === "*") {
+			// "**/" matches zero or more folders, "**" anything
+			if (trimmed[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	const prefix = trimmed.includes("/") ? "^" : "^(?:.*/)?";
+	// A matching folder also matches everything it contains
+	return new RegExp(prefix + source.replace(/\/$/, "") + "(?:/.*)?$");
+}
+
+// Compiled patterns, as the same patterns are matched against every file of the vault
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Converts a pattern to a regular expression: patterns written as `/source/flags` are regular
+ * expressions, any other pattern is a glob pattern. Each pattern is compiled once.
+ *
+ * @param pattern - The pattern.
+ * @returns The regular expression, or null if the pattern is an invalid regular expression.
+ */
+export function patternToRegExp(pattern: string): RegExp | null {
+	const cached = compiledPatterns.get(pattern);
+	if (cached !== undefined) return cached;
+
+	let compiled: RegExp | null;
+	const regex = pattern.trim().match(/^\/(.+)\/([a-z]*)$/);
+	if (!regex) {
+		compiled = globToRegExp(pattern);
+	} else {
+		try {
+			// Shared expressions must not keep a position between tests
+			compiled = new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+		} catch {
+			compiled = null;
+		}
+	}
+	compiledPatterns.set(pattern, compiled);
+	return compiled;
+}
+
+/**
+ * Checks whether a path matches any of the given patterns (glob patterns or `/regular expressions/`).
+ * Invalid regular expressions never match.
+ *
+ * @param path - The path to check.
+ * @param patterns - The patterns.
+ * @returns True if at least one pattern matches the path.
+ */
+export function matchesAnyPattern(path: string, patterns: string[]): boolean {
+	return patterns.some(
+		(pattern) => patternToRegExp(pattern)?.test(path) ?? false,
+	);
+}
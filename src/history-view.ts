@@ -0,0 +1,117 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type GitHubPublisherPlugin from "./main";
+
+// Type of the publish history view
+export const VIEW_TYPE_HISTORY = "github-publisher-history";
+
+// Path of a pull request in its URL ("/pull/" on GitHub, "/pulls/" on hosts such as Gitea)
+const PULL_REQUEST_URL_REGEX = /\/pulls?\/\d+/;
+
+/**
+ * Formats a duration in a human readable way.
+ *
+ * @param duration - The duration in milliseconds.
+ * @returns The formatted duration (e.g. "1.2 s").
+ */
+function formatDuration(duration: number): string {
+	if (duration < 1000) return `${duration} ms`;
+	if (duration < 60000) return `${(duration / 1000).toFixed(1)} s`;
+	return `${Math.floor(duration / 60000)} min ${Math.round((duration % 60000) / 1000)} s`;
+}
+
+// View listing the past publishes of every profile, most recent first
+export class PublishHistoryView extends ItemView {
+	plugin: GitHubPublisherPlugin; // Plugin instance
+
+	/**
+	 * Creates an instance of the view.
+	 * @param leaf - The leaf the view is opened in.
+	 * @param plugin - The GitHubPublisherPlugin instance.
+	 */
+	constructor(leaf: WorkspaceLeaf, plugin: GitHubPublisherPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HISTORY;
+	}
+
+	getDisplayText(): string {
+		return "Publish history";
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen(): Promise<void> {
+		this.render();
+	}
+
+	/**
+	 * Renders the list of past publishes: date, profile, outcome, file counts, duration,
+	 * link to the commit or pull request, and error details.
+	 */
+	render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("github-publisher-history");
+
+		const history = this.plugin.history;
+		if (history.length === 0) {
+			contentEl.createEl("p", {
+				text: "No publish yet.",
+				cls: "github-publisher-history-empty",
+			});
+			return;
+		}
+
+		for (const record of history) {
+			const item = contentEl.createDiv({
+				cls: ["github-publisher-history-item", `mod-${record.status}`],
+			});
+
+			const header = item.createDiv({
+				cls: "github-publisher-history-header",
+			});
+			header.createSpan({
+				text: new Date(record.date).toLocaleString(),
+			});
+			header.createSpan({
+				text: record.profileName,
+				cls: "github-publisher-history-profile",
+			});
+
+			const details = item.createDiv({
+				cls: "github-publisher-history-details",
+			});
+			if (record.status === "success") {
+				details.createSpan({
+					text: `+${record.added} ~${record.modified} -${record.deleted}`,
+					attr: { "aria-label": "Added, modified, deleted" },
+				});
+			} else {
+				details.createSpan({ text: "Failed" });
+			}
+			details.createSpan({ text: formatDuration(record.duration) });
+			if (record.url) {
+				details.createEl("a", {
+					text: PULL_REQUEST_URL_REGEX.test(record.url)
+						? "Pull request"
+						: (record.commitSha?.slice(0, 7) ?? "Commit"),
+					href: record.url,
+				});
+			} else if (record.status === "success") {
+				details.createSpan({ text: "No changes" });
+			}
+
+			if (record.error) {
+				item.createDiv({
+					text: record.error,
+					cls: "github-publisher-history-error",
+				});
+			}
+		}
+	}
+}
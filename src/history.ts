@@ -0,0 +1,63 @@
+import { App } from "obsidian";
+
+// Number of publishes kept in the history
+const MAX_HISTORY_RECORDS = 200;
+
+// Interface for a past publish
+export interface PublishRecord {
+	profileId: string; // ID of the published profile
+	profileName: string; // Name of the profile at the time of the publish
+	date: string; // Start date of the publish, in ISO format
+	duration: number; // Duration of the publish in milliseconds
+	status: "success" | "error"; // Outcome of the publish
+	repository: string; // Repository, as "owner/repo" (empty if the publish failed before reaching it)
+	commitSha?: string; // SHA of the publish commit
+	url?: string; // URL of the commit or pull request on GitHub
+	added: number; // Number of added files
+	modified: number; // Number of modified files
+	deleted: number; // Number of deleted files
+	error?: string; // Error message, if the publish failed
+}
+
+/**
+ * Loads the publish history from the given file.
+ * A missing or unreadable file results in an empty history.
+ *
+ * @param app - The Obsidian App instance.
+ * @param path - The path of the history file, relative to the vault.
+ * @returns {Promise<PublishRecord[]>} The past publishes, most recent first.
+ */
+export async function loadHistory(
+	app: App,
+	path: string,
+): Promise<PublishRecord[]> {
+	try {
+		if (!(await app.vault.adapter.exists(path))) return [];
+		const data = JSON.parse(await app.vault.adapter.read(path)) as unknown;
+		return Array.isArray(data) ? (data as PublishRecord[]) : [];
+	} catch (e) {
+		console.warn("GitHub Publisher: could not load the publish history", e);
+		return [];
+	}
+}
+
+/**
+ * Adds a publish at the top of the history, dropping the oldest ones beyond the limit,
+ * and saves the history to the given file.
+ *
+ * @param app - The Obsidian App instance.
+ * @param path - The path of the history file, relative to the vault.
+ * @param history - The past publishes, most recent first, modified in place.
+ * @param record - The publish to add.
+ * @returns {Promise<void>} Resolves when the history has been written.
+ */
+export async function addHistoryRecord(
+	app: App,
+	path: string,
+	history: PublishRecord[],
+	record: PublishRecord,
+): Promise<void> {
+	history.unshift(record);
+	history.splice(MAX_HISTORY_RECORDS);
+	await app.vault.adapter.write(path, JSON.stringify(history));
+}
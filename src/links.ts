@@ -0,0 +1,245 @@
+import { parseLinktext } from "obsidian";
+import {
+	ContentTransform,
+	TransformContext,
+	TransformFile,
+} from "./transforms";
+
+// What to do with links pointing to notes that are not published
+export type UnpublishedLinkMode = "text" | "raw" | "warn";
+
+// Matches fenced code blocks and inline code spans, which must never be rewritten
+const CODE_REGEX = /(```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`)/g;
+
+// Matches wikilinks and embeds: [[target]], [[target|alias]], ![[target]]
+const WIKILINK_REGEX = /(!?)\[\[([^\]\n]+?)\]\]/g;
+
+// Matches Markdown links and embeds: [text](target), ![alt](<target with spaces> "title")
+const MARKDOWN_LINK_REGEX =
+	/(!?)\[([^\]\n]*)\]\(\s*(<[^>\n]+>|[^)\s]+)((?:\s+"[^"\n]*")?)\s*\)/g;
+
+// Matches link targets that are URLs (e.g. https:, mailto:) rather than vault paths
+const URL_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+
+// Matches embed aliases that are actually image sizes (e.g. 300 or 300x200)
+const SIZE_REGEX = /^\d+(x\d+)?$/;
+
+/**
+ * Computes the relative path from a file to another one, both given as repository paths.
+ *
+ * @param from - The repository path of the file containing the link.
+ * @param to - The repository path of the link target.
+ * @returns The relative path, URL-encoded segment by segment.
+ */
+export function relativeRepoPath(from: string, to: string): string {
+	const fromDirs = from.split("/").slice(0, -1);
+	const toParts = to.split("/");
+
+	let common = 0;
+	while (
+		common < fromDirs.length &&
+		common < toParts.length - 1 &&
+		fromDirs[common] === toParts[common]
+	) {
+		common++;
+	}
+
+	const parts = [
+		...fromDirs.slice(common).map(() => ".."),
+		...toParts.slice(common),
+	];
+	return parts
+		.map((part) =>
+			part === ".."
+				? part
+				: encodeURIComponent(part)
+						.replace(/\(/g, "%28")
+						.replace(/\)/g, "%29"),
+		)
+		.join("/");
+}
+
+/**
+ * Converts an Obsidian subpath (heading or block reference) to a Markdown anchor.
+ *
+ * Headings are slugified the same way GitHub and most static site generators do.
+ *
+ * @param subpath - The subpath, including its leading `#` (e.g. `#My heading` or `#^block`).
+ * @returns The anchor, including its leading `#`, or an empty string.
+ */
+export function subpathToAnchor(subpath: string): string {
+	if (!subpath) return "";
+	const parts = subpath.split("#").filter((p) => p);
+	const last = parts[parts.length - 1];
+	if (!last) return "";
+	if (last.startsWith("^")) return "#" + last.slice(1);
+	const slug = last
+		.trim()
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}\s_-]/gu, "")
+		.replace(/\s/g, "-");
+	return "#" + slug;
+}
+
+/**
+ * Rewrites a Markdown link or embed to a published file so that it points to the repository
+ * path of the file, which may differ from its vault path (path rules, moved attachments).
+ * Links to URLs, to headings of the current note, and to files that are not published are
+ * kept as is.
+ *
+ * @param raw - The whole link.
+ * @param bang - "!" for an embed, empty for a link.
+ * @param text - The text of the link.
+ * @param target - The link target, as written (possibly URL-encoded or in angle brackets).
+ * @param title - The title of the link, with its leading spaces (empty if none).
+ * @param file - The published file containing the link.
+ * @param context - The transformation context.
+ * @returns The rewritten link.
+ */
+function rewriteMarkdownLink(
+	raw: string,
+	bang: string,
+	text: string,
+	target: string,
+	title: string,
+	file: TransformFile,
+	context: TransformContext,
+): string {
+	const href = target.replace(/^<|>$/g, "");
+	if (URL_REGEX.test(href) || href.startsWith("#")) return raw;
+	const hash = href.indexOf("#");
+	const path = hash >= 0 ? href.slice(0, hash) : href;
+	const anchor = hash >= 0 ? href.slice(hash) : "";
+	let linkpath: string;
+	try {
+		linkpath = decodeURIComponent(path);
+	} catch {
+		linkpath = path;
+	}
+
+	const dest = context.app.metadataCache.getFirstLinkpathDest(
+		linkpath,
+		file.vaultPath,
+	);
+	const destRepoPath = dest ? context.repoPaths.get(dest.path) : undefined;
+	if (!destRepoPath) return raw;
+	const rewritten = relativeRepoPath(file.repoPath, destRepoPath) + anchor;
+	return `${bang}[${text}](${rewritten}${title})`;
+}
+
+/**
+ * Creates the transformation step converting wikilinks and embeds to standard Markdown links.
+ *
+ * Links are resolved with the MetadataCache and rewritten to relative links pointing to the
+ * repository path of their target. Existing Markdown links to published files are rewritten
+ * the same way. Links to files that are not published are handled
+ * according to the given mode: replaced by their text, kept raw, or replaced by their text
+ * with a warning.
+ *
+ * @param mode - What to do with links to files that are not published.
+ * @returns The transformation step.
+ */
+export function wikilinksTransform(
+	mode: UnpublishedLinkMode,
+): ContentTransform {
+	return (content, file, context) =>
+		content
+			.split(CODE_REGEX)
+			.map((chunk, i) => {
+				// Odd chunks are code captured by the split, keep them as is
+				if (i % 2 === 1) return chunk;
+				return chunk
+					.replace(
+						MARKDOWN_LINK_REGEX,
+						(
+							raw: string,
+							bang: string,
+							text: string,
+							target: string,
+							title: string,
+						) =>
+							rewriteMarkdownLink(
+								raw,
+								bang,
+								text,
+								target,
+								title,
+								file,
+								context,
+							),
+					)
+					.replace(
+						WIKILINK_REGEX,
+						(raw: string, bang: string, inner: string) => {
+							const isEmbed = bang === "!";
+							const unescaped = inner.replace(/\\\|/g, "|");
+							const pipe = unescaped.indexOf("|");
+							const linktext =
+								pipe >= 0
+									? unescaped.slice(0, pipe)
+									: unescaped;
+							const alias =
+								pipe >= 0
+									? unescaped.slice(pipe + 1).trim()
+									: "";
+							const { path, subpath } = parseLinktext(linktext);
+							const anchor = subpathToAnchor(subpath);
+
+							// Text displayed for the link, defaults to what Obsidian shows
+							const heading = subpath
+								.split("#")
+								.filter((p) => p)
+								.pop();
+							const defaultText = heading
+								? path
+									? `${path} > ${heading}`
+									: heading
+								: path;
+							const text =
+								alias && !(isEmbed && SIZE_REGEX.test(alias))
+									? alias
+									: defaultText;
+
+							// Link to a heading or block of the current note
+							if (!path)
+								return anchor ? `[${text}](${anchor})` : text;
+
+							const target =
+								context.app.metadataCache.getFirstLinkpathDest(
+									path,
+									file.vaultPath,
+								);
+							const targetRepoPath = target
+								? context.repoPaths.get(target.path)
+								: undefined;
+
+							// Target is not published
+							if (!targetRepoPath) {
+								if (mode === "raw") return raw;
+								if (mode === "warn") {
+									context.warnings.push(
+										`${file.vaultPath}: link to unpublished "${linktext}"`,
+									);
+								}
+								return text;
+							}
+
+							// Links to the current note keep only their anchor, if they have one
+							const href =
+								target?.path === file.vaultPath && anchor
+									? anchor
+									: relativeRepoPath(
+											file.repoPath,
+											targetRepoPath,
+										) + anchor;
+
+							// Embedded notes cannot be transcluded, link to them instead
+							if (isEmbed && target?.extension !== "md") {
+								return `![${text}](${href})`;
+							}
+							return `[${text}](${href})`;
+						},
+					);
+			})
+			.join("");
+}
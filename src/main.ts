@@ -1,56 +1,115 @@
-import { addMultiPathInput } from "./multi-path-input";
-import { addMultiTagInput } from "./multi-tag-input";
+import { findAttachments } from "./attachments";
+import {
+	getPublishControls,
+	isPublishRequested,
+	PublishControls,
+} from "./frontmatter";
+import { wikilinksTransform } from "./links";
+import { frontmatterRulesTransform, isEmptyRules } from "./frontmatter-rules";
+import {
+	GitHubPublisherSettings,
+	migrateSettings,
+	PublishProfile,
+} from "./settings";
+import { GitHubPublisherSettingTab } from "./settings-tab";
+import {
+	FileState,
+	loadSyncState,
+	ProfileSyncState,
+	saveSyncState,
+	SyncState,
+} from "./sync-state";
+import { addHistoryRecord, loadHistory, PublishRecord } from "./history";
+import { PublishHistoryView, VIEW_TYPE_HISTORY } from "./history-view";
+import {
+	PublishedNotesView,
+	VIEW_TYPE_PUBLISHED_NOTES,
+} from "./published-notes-view";
+import {
+	FilePublishStatus,
+	fileStatus,
+	mergeFileStatus,
+} from "./publish-status";
+import { ExplorerDecorations } from "./explorer-decorations";
+import { PublishStatusBar } from "./status-bar";
+import { PublishJob, PublishQueue } from "./publish-queue";
+import {
+	commitIdentity,
+	PLUGIN_IDENTITY,
+	renderCommitMessage,
+} from "./commit-message";
+import { CommitMessageModal } from "./commit-message-modal";
+import { CommitPerson, commitPayload, signCommitPayload } from "./signing";
+import {
+	LocalFile,
+	localFileSize,
+	PublishChange,
+	PublishPlan,
+	PublishResult,
+	PublishScope,
+	RemoteFile,
+} from "./publish-plan";
+import { matchesAnyPattern } from "./glob";
+import { checkPathCollisions, mapFileName, mapVaultPath } from "./paths";
+import { isPublishBranchUpToDate, publishPullRequest } from "./pull-request";
+import {
+	createOctokit,
+	isNonFastForwardError,
+	mapConcurrent,
+	parseRepoUrl,
+	RepoLocation,
+	tokenOwnerIdentity,
+} from "./github";
+import {
+	createInstallationToken,
+	InstallationToken,
+	OAuthToken,
+	pollDeviceToken,
+	refreshOAuthToken,
+	requestDeviceCode,
+} from "./auth";
+import { DeviceFlowModal } from "./device-flow-modal";
+import {
+	ConnectionTestResult,
+	createBranch,
+	testConnection,
+} from "./connection-test";
+import { PublishPreviewModal } from "./preview-modal";
+import {
+	ConflictResolution,
+	SyncConflict,
+	SyncConflictModal,
+} from "./conflict-modal";
+import { ProfileSuggestModal } from "./profile-suggest-modal";
+import {
+	applyTransforms,
+	ContentTransform,
+	TransformContext,
+} from "./transforms";
 import {
 	Plugin,
-	PluginSettingTab,
 	App,
-	Setting,
+	TAbstractFile,
 	TFile,
 	TFolder,
 	Notice,
+	Menu,
+	Vault,
+	Modal,
 	normalizePath,
 	arrayBufferToBase64,
+	base64ToArrayBuffer,
 } from "obsidian";
 import { Octokit, RestEndpointMethodTypes } from "@octokit/rest";
 
-// Interface for plugin settings
-interface GitHubPublisherSettings {
-	githubToken: string; // GitHub personal access token
-	repoUrl: string; // URL of the GitHub repository
-	repoFolder: string; // Relative path in the repo where notes will be placed
-	repoBranch: string; // Branch to push changes to
-	selectedPaths: string[]; // List of paths to sync (files or folders in the vault)
-	publishTags: string[]; // Tags that mark files for publishing (e.g. ["#note", "#publish"])
-	syncInterval: number; // Sync interval in minutes
-	lastSyncDate?: string; // Last sync date in ISO format
-}
+// Number of blobs uploaded at the same time
+const BLOB_UPLOAD_CONCURRENCY = 4;
 
-// Default settings for the plugin
-const DEFAULT_SETTINGS: GitHubPublisherSettings = {
-	githubToken: "",
-	repoUrl: "",
-	repoFolder: "",
-	repoBranch: "main",
-	selectedPaths: [],
-	publishTags: [],
-	syncInterval: 60,
-};
-
-// Interface for local files to be published
-interface LocalFile {
-	vaultPath: string; // Path in the Obsidian vault
-	repoPath: string; // Path in the GitHub repository
-	content?: string; // Content of the file as text (if it's a text file)
-	binary?: ArrayBuffer; // Binary content of the file (if it's a binary file)
-	isText: boolean; // Whether the file is a text file or binary
-}
+// Number of attempts to push to a branch updated by someone else during the publish
+const MAX_PUSH_ATTEMPTS = 3;
 
-// Parse the GitHub repository URL to extract owner and repo name
-function parseRepoUrl(repoUrl: string) {
-	const m = repoUrl.match(/github\.com[:/](.+?)\/(.+?)(\.git)?$/i);
-	if (!m) throw new Error("Invalid GitHub repository URL");
-	return { owner: m[1], repo: m[2] };
-}
+// How long blobs uploaded by a publish that did not complete are reused, in milliseconds
+const UPLOADED_BLOB_LIFETIME = 24 * 60 * 60 * 1000;
 
 /**
  * Determines if the given ArrayBuffer contains text data, using the same heuristic as git.
@@ -72,357 +131,2378 @@ function isTextBuffer(buffer: ArrayBuffer): boolean {
 	} catch {
 		return false;
 	}
-}
-
-// Main plugin class
-export default class GitHubPublisherPlugin extends Plugin {
-	settings: GitHubPublisherSettings; // Plugin settings
-	octokit: Octokit; // Octokit instance for GitHub API interactions
-	settingTab: GitHubPublisherSettingTab | null = null; // Settings tab instance
-
-	private syncIntervalId: number | null = null; // ID of the sync interval
+}
+
+/**
+ * Makes a repository path unique by appending a number to its file name (e.g. "image-2.png").
+ *
+ * @param path - The repository path.
+ * @param taken - The repository paths already taken.
+ * @returns The path, or a numbered variant of it that is not taken.
+ */
+function uniqueRepoPath(path: string, taken: Set<string>): string {
+	const match = path.match(/^(.*?)(\.[^./]*)?$/);
+	const base = match?.[1] ?? path;
+	const extension = match?.[2] ?? "";
+	let unique = path;
+	for (let n = 2; taken.has(unique); n++) {
+		unique = `${base}-${n}${extension}`;
+	}
+	return unique;
+}
+
+/**
+ * Determines if a repository path is in a repository folder. An empty folder is the root of
+ * the repository, which contains every path.
+ *
+ * @param path - The repository path.
+ * @param folder - The repository folder, without leading or trailing slash.
+ * @returns True if the path is in the folder.
+ */
+function isInRepoFolder(path: string, folder: string): boolean {
+	return !folder || path === folder || path.startsWith(`${folder}/`);
+}
+
+// Main plugin class
+export default class GitHubPublisherPlugin extends Plugin {
+	settings: GitHubPublisherSettings; // Plugin settings
+	settingTab: GitHubPublisherSettingTab | null = null; // Settings tab instance
+
+	private syncIntervals = new Map<string, { id: number; minutes: number }>(); // Profile ID -> ID and period of its sync interval
+	private profileCommands = new Map<string, string>(); // Profile ID -> name of its registered command
+	private changeTimeoutIds = new Map<string, number>(); // Profile ID -> ID of its pending publish after a change
+	private lastGathered = new Map<string, Set<string>>(); // Profile ID -> vault paths gathered by its last publish
+	private syncState: SyncState = { profiles: {}, blobs: {} }; // State of the files and branch of each profile as of its last publish
+	private installationTokens = new Map<
+		string,
+		{ credentials: string; token: InstallationToken }
+	>(); // Profile ID -> installation token of its GitHub App, with the app, installation and repository it was created for
+	history: PublishRecord[] = []; // Past publishes, most recent first
+	private statusBar?: PublishStatusBar; // Status bar item
+	publishStatuses = new Map<string, FilePublishStatus>(); // Vault path -> publish state of the files of the publish selections
+	private explorerDecorations?: ExplorerDecorations; // Publish state badges of the file explorer
+	private statusTimeoutId: number | null = null; // ID of the pending refresh of the publish states
+	publishQueue = new PublishQueue((job) =>
+		this.statusBar?.setProgress(
+			job?.progress ?? null,
+			this.publishQueue.waitingCount,
+		),
+	); // Runs the publishes one at a time
+
+	/**
+	 * Initializes the plugin by loading settings, adding the settings tab and registering the sync commands.
+	 *
+	 * @async
+	 * @returns {Promise<void>} Resolves when the plugin has finished loading.
+	 */
+	async onload(): Promise<void> {
+		// Load settings from storage or use default values
+		await this.loadSettings();
+
+		// Load the sync state of the profiles
+		this.syncState = await loadSyncState(
+			this.app,
+			this.dataFilePath("sync-state.json"),
+		);
+
+		// Load the publish history and register its view
+		this.history = await loadHistory(
+			this.app,
+			this.dataFilePath("history.json"),
+		);
+		this.registerView(
+			VIEW_TYPE_HISTORY,
+			(leaf) => new PublishHistoryView(leaf, this),
+		);
+		this.registerView(
+			VIEW_TYPE_PUBLISHED_NOTES,
+			(leaf) => new PublishedNotesView(leaf, this),
+		);
+
+		// Show the publish status in the status bar, click to publish every profile
+		this.statusBar = new PublishStatusBar(
+			this.addStatusBarItem(),
+			() => this.lastPublishDate(),
+			() => void this.publishAll(),
+		);
+		this.registerInterval(
+			window.setInterval(() => this.statusBar?.update(), 60 * 1000),
+		);
+
+		// Load the settings tab for the plugin
+		this.settingTab = new GitHubPublisherSettingTab(this.app, this);
+		this.addSettingTab(this.settingTab);
+
+		// Add a command to the command palette for manual sync of all profiles
+		this.addCommand({
+			id: "publish-now",
+			name: "Publish to GitHub now",
+			callback: () => {
+				void this.publishAll();
+			},
+		});
+
+		// Add a command to preview the changes before publishing them
+		this.addCommand({
+			id: "preview-publish",
+			name: "Preview publish",
+			callback: () => {
+				this.chooseProfile((profile) => {
+					void this.previewPublish(profile);
+				});
+			},
+		});
+
+		// Add a command to cancel the running publish
+		this.addCommand({
+			id: "cancel-publish",
+			name: "Cancel publish",
+			callback: () => {
+				this.cancelPublish();
+			},
+		});
+
+		// Add a command to open the publish history
+		this.addCommand({
+			id: "open-publish-history",
+			name: "Open publish history",
+			callback: () => {
+				void this.openSidebarView(VIEW_TYPE_HISTORY);
+			},
+		});
+
+		// Add a command to open the list of published notes
+		this.addCommand({
+			id: "open-published-notes",
+			name: "Open published notes",
+			callback: () => {
+				void this.openSidebarView(VIEW_TYPE_PUBLISHED_NOTES);
+			},
+		});
+
+		// Publish, add to the selection or unpublish a single note or folder
+		this.registerFileActions();
+
+		// Publish profiles in "on change" mode when their files change
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => this.onVaultChange(file)),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => this.onVaultChange(file)),
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.renameUnpublishedPaths(file, oldPath);
+				this.onVaultChange(file, oldPath);
+			}),
+		);
+
+		this.app.workspace.onLayoutReady(() => {
+			// Files created while the vault loads are not changes
+			this.registerEvent(
+				this.app.vault.on("create", (file) => this.onVaultChange(file)),
+			);
+
+			// Show the publish state of the files in the file explorer, and keep it up to date
+			this.explorerDecorations = new ExplorerDecorations(
+				this.app,
+				(path) => this.publishStatuses.get(path),
+			);
+			this.registerEvent(
+				this.app.metadataCache.on("changed", () =>
+					this.scheduleStatusRefresh(),
+				),
+			);
+			this.registerEvent(
+				this.app.workspace.on("layout-change", () =>
+					this.explorerDecorations?.refresh(),
+				),
+			);
+			this.updatePublishStatuses();
+
+			// Publish profiles configured to publish on startup
+			for (const profile of this.settings.profiles) {
+				if (
+					profile.publishOnStartup &&
+					this.isProfileComplete(profile)
+				) {
+					void this.publishToGitHub(profile);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Adds the publish actions of a single note or folder to the file explorer and editor menus,
+	 * and the matching commands for the active note.
+	 */
+	registerFileActions(): void {
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) =>
+				this.addFileMenuItems(menu, file),
+			),
+		);
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, _editor, info) => {
+				if (info.file) this.addFileMenuItems(menu, info.file);
+			}),
+		);
+
+		const activeFileCommand = (
+			id: string,
+			name: string,
+			action: (file: TFile) => void,
+		) =>
+			this.addCommand({
+				id,
+				name,
+				checkCallback: (checking) => {
+					const file = this.app.workspace.getActiveFile();
+					if (!file) return false;
+					if (!checking) action(file);
+					return true;
+				},
+			});
+		activeFileCommand(
+			"publish-active-note",
+			"Publish active note",
+			(file) =>
+				this.chooseSelectingProfile(
+					file,
+					(profile) => void this.publishFile(profile, file),
+				),
+		);
+		activeFileCommand(
+			"add-active-note-to-selection",
+			"Add active note to publish selection",
+			(file) =>
+				this.chooseProfile(
+					(profile) => void this.addToSelection(profile, file),
+				),
+		);
+		activeFileCommand(
+			"unpublish-active-note",
+			"Unpublish active note",
+			(file) =>
+				this.chooseSelectingProfile(
+					file,
+					(profile) => void this.unpublishFile(profile, file),
+				),
+		);
+	}
+
+	/**
+	 * Runs the callback with the profile chosen by the user among those selecting a note.
+	 *
+	 * @param file - The note.
+	 * @param callback - The callback to run with the chosen profile.
+	 */
+	private chooseSelectingProfile(
+		file: TFile,
+		callback: (profile: PublishProfile) => void,
+	): void {
+		const selecting = this.profilesSelecting(file);
+		if (selecting.length === 0) {
+			new Notice(
+				`GitHub publisher: ${file.name} is not in the publish selection of any profile`,
+			);
+			return;
+		}
+		this.chooseProfile(callback, selecting);
+	}
+
+	/**
+	 * Adds the publish actions of a note or folder to a menu: publish it with the profiles
+	 * selecting it, add it to the selection of a profile, or unpublish it.
+	 *
+	 * @param menu - The file explorer or editor menu.
+	 * @param file - The note or folder.
+	 */
+	private addFileMenuItems(menu: Menu, file: TAbstractFile): void {
+		if (this.settings.profiles.length === 0) return;
+		const kind = file instanceof TFolder ? "folder" : "note";
+		const selecting = this.profilesSelecting(file);
+
+		if (selecting.length > 0) {
+			menu.addItem((item) =>
+				item
+					.setTitle(`Publish this ${kind}`)
+					.setIcon("upload")
+					.onClick(() =>
+						this.chooseProfile(
+							(profile) => void this.publishFile(profile, file),
+							selecting,
+						),
+					),
+			);
+		}
+		if (selecting.length < this.settings.profiles.length) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Add to publish selection")
+					.setIcon("list-plus")
+					.onClick(() =>
+						this.chooseProfile(
+							(profile) =>
+								void this.addToSelection(profile, file),
+							this.settings.profiles.filter(
+								(p) => !selecting.includes(p),
+							),
+						),
+					),
+			);
+		}
+		if (selecting.length > 0) {
+			menu.addItem((item) =>
+				item
+					.setTitle(`Unpublish this ${kind}`)
+					.setIcon("cloud-off")
+					.onClick(() =>
+						this.chooseProfile(
+							(profile) => void this.unpublishFile(profile, file),
+							selecting,
+						),
+					),
+			);
+		}
+	}
+
+	/**
+	 * Lists the files of a note or folder.
+	 *
+	 * @param file - The note or folder.
+	 * @returns The note, or the files of the folder and its subfolders.
+	 */
+	private filesOf(file: TAbstractFile): TFile[] {
+		if (file instanceof TFile) return [file];
+		const files: TFile[] = [];
+		if (file instanceof TFolder) {
+			Vault.recurseChildren(file, (child) => {
+				if (child instanceof TFile) files.push(child);
+			});
+		}
+		return files;
+	}
+
+	/**
+	 * Lists the profiles whose selection includes a note, or a file of a folder.
+	 *
+	 * @param file - The note or folder.
+	 * @returns The profiles selecting it.
+	 */
+	profilesSelecting(file: TAbstractFile): PublishProfile[] {
+		const files = this.filesOf(file);
+		return this.settings.profiles.filter((profile) =>
+			files.some((f) => this.isSelected(profile, f)),
+		);
+	}
+
+	/**
+	 * Publishes a note or folder of the selection of a profile, with the attachments of its
+	 * notes. Only their changes are committed: the other changes of the selection are left
+	 * to the next publish of the profile.
+	 *
+	 * @param profile - The profile to publish with.
+	 * @param file - The note or folder.
+	 * @returns {Promise<void>} Resolves when the publish is complete.
+	 */
+	async publishFile(
+		profile: PublishProfile,
+		file: TAbstractFile,
+	): Promise<void> {
+		const scope: PublishScope = {
+			vaultPaths: new Set(),
+			deletedPaths: new Set(),
+		};
+		for (const f of this.filesOf(file)) {
+			scope.vaultPaths.add(f.path);
+			if (f.extension === "md" && profile.publishAttachments) {
+				for (const attachment of findAttachments(this.app, f)) {
+					scope.vaultPaths.add(attachment.path);
+				}
+			}
+		}
+
+		await this.publishQueue.enqueue(
+			profile,
+			true,
+			(job) =>
+				this.trackPublish(profile, job, async () => {
+					const plan = await this.buildPublishPlan(
+						profile,
+						job,
+						scope,
+					);
+					if (!plan) return null;
+					if (
+						!plan.localFiles.some((f) =>
+							scope.vaultPaths.has(f.vaultPath),
+						)
+					) {
+						new Notice(
+							`GitHub Publisher (${profile.name}): ${file.name} is not in the publish selection`,
+						);
+						return null;
+					}
+					if (plan.changes.length === 0) {
+						new Notice(
+							`GitHub Publisher (${profile.name}): ${file.name} is up to date`,
+						);
+						return null;
+					}
+					if (!(await this.promptCommitMessage(plan))) return null;
+					return this.applyPublishPlan(plan);
+				}),
+			`publish-file:${profile.id}:${file.path}`,
+		);
+	}
+
+	/**
+	 * Adds a note or folder to the selection of a profile, and publishes it: its unpublish
+	 * mark (and those of its content) is removed, and it is added to the selected paths if it
+	 * is not selected by a parent folder, a tag or its frontmatter.
+	 *
+	 * @param profile - The profile.
+	 * @param file - The note or folder.
+	 * @returns {Promise<void>} Resolves when the note or folder is published.
+	 */
+	async addToSelection(
+		profile: PublishProfile,
+		file: TAbstractFile,
+	): Promise<void> {
+		profile.unpublishedPaths = profile.unpublishedPaths.filter(
+			(path) => path !== file.path && !path.startsWith(`${file.path}/`),
+		);
+		if (
+			!this.profilesSelecting(file).includes(profile) &&
+			!profile.selectedPaths.includes(file.path)
+		) {
+			profile.selectedPaths.push(file.path);
+		}
+		await this.saveSettings();
+
+		if (!this.profilesSelecting(file).includes(profile)) {
+			new Notice(
+				`GitHub Publisher (${profile.name}): ${file.name} was added to the selection, but is excluded by the settings or its frontmatter`,
+			);
+			return;
+		}
+		await this.publishFile(profile, file);
+	}
+
+	/**
+	 * Unpublishes a note or folder: marks it so that it is not published anymore (whether it
+	 * is selected by path, tag or frontmatter) until it is added to the selection again, and
+	 * deletes it from the repository in a dedicated commit. The attachments of its notes that
+	 * no other published note references are deleted too, if the profile is set to.
+	 *
+	 * @param profile - The profile.
+	 * @param file - The note or folder.
+	 * @returns {Promise<void>} Resolves when the note or folder is deleted from the repository.
+	 */
+	async unpublishFile(
+		profile: PublishProfile,
+		file: TAbstractFile,
+	): Promise<void> {
+		const files = this.filesOf(file);
+		const unpublished = new Set(files.map((f) => f.path));
+		if (profile.unpublishAttachments) {
+			for (const f of files) {
+				if (f.extension !== "md") continue;
+				for (const attachment of findAttachments(this.app, f)) {
+					unpublished.add(attachment.path);
+				}
+			}
+		}
+
+		// Files published before the mark and not after it: the files of the note or folder,
+		// and the attachments referenced only by them
+		const before = this.gatherLocalFiles(profile);
+		if (!profile.unpublishedPaths.includes(file.path)) {
+			profile.unpublishedPaths.push(file.path);
+		}
+		await this.saveSettings();
+		const after = new Set(
+			this.gatherLocalFiles(profile).map((f) => f.vaultPath),
+		);
+		const scope: PublishScope = {
+			vaultPaths: new Set(),
+			deletedPaths: new Set(
+				before
+					.filter(
+						(f) =>
+							unpublished.has(f.vaultPath) &&
+							!after.has(f.vaultPath),
+					)
+					.map((f) => f.repoPath),
+			),
+		};
+
+		await this.publishQueue.enqueue(profile, true, (job) =>
+			this.trackPublish(profile, job, async () => {
+				const plan = await this.buildPublishPlan(profile, job, scope);
+				if (!plan) return null;
+				if (plan.changes.length === 0) {
+					new Notice(
+						`GitHub Publisher (${profile.name}): ${file.name} is not in the repository`,
+					);
+					return null;
+				}
+				plan.commitMessage = `Unpublish ${file.name}`;
+				if (!(await this.promptCommitMessage(plan))) return null;
+				return this.applyPublishPlan(plan);
+			}),
+		);
+	}
+
+	/**
+	 * Checks whether a file was unpublished explicitly, or is in an unpublished folder.
+	 *
+	 * @param profile - The profile.
+	 * @param path - The vault path of the file.
+	 * @returns True if the file must not be published until it is added to the selection again.
+	 */
+	private isUnpublished(profile: PublishProfile, path: string): boolean {
+		return profile.unpublishedPaths.some(
+			(unpublished) =>
+				path === unpublished || path.startsWith(`${unpublished}/`),
+		);
+	}
+
+	/**
+	 * Follows a renamed note or folder in the unpublish marks of the profiles.
+	 *
+	 * @param file - The renamed note or folder.
+	 * @param oldPath - Its previous path.
+	 */
+	private renameUnpublishedPaths(file: TAbstractFile, oldPath: string): void {
+		let changed = false;
+		for (const profile of this.settings.profiles) {
+			profile.unpublishedPaths = profile.unpublishedPaths.map((path) => {
+				if (path !== oldPath && !path.startsWith(`${oldPath}/`)) {
+					return path;
+				}
+				changed = true;
+				return file.path + path.slice(oldPath.length);
+			});
+		}
+		if (changed) void this.saveSettings();
+	}
+
+	/**
+	 * Clears the pending publishes scheduled after changes.
+	 */
+	onunload(): void {
+		for (const timeoutId of this.changeTimeoutIds.values()) {
+			window.clearTimeout(timeoutId);
+		}
+		this.changeTimeoutIds.clear();
+		if (this.statusTimeoutId !== null) {
+			window.clearTimeout(this.statusTimeoutId);
+		}
+		this.explorerDecorations?.detach();
+	}
+
+	/**
+	 * Handles a change in the vault: for each profile in "on change" mode whose publish
+	 * selection contains the file (now, or in its last publish), schedules a publish once
+	 * no other change happened during the quiet period of the profile.
+	 *
+	 * @param file - The created, modified, renamed or deleted file.
+	 * @param oldPath - The previous path of the file, if it was renamed.
+	 */
+	onVaultChange(file: TAbstractFile, oldPath?: string): void {
+		if (!(file instanceof TFile)) return;
+		this.scheduleStatusRefresh();
+
+		for (const profile of this.settings.profiles) {
+			if (profile.syncMode !== "on-change") continue;
+			if (!this.isProfileComplete(profile)) continue;
+
+			const gathered = this.lastGathered.get(profile.id);
+			const relevant =
+				gathered?.has(file.path) ||
+				(oldPath !== undefined && gathered?.has(oldPath)) ||
+				this.isSelected(profile, file);
+			if (!relevant) continue;
+
+			// Restart the quiet period
+			const pending = this.changeTimeoutIds.get(profile.id);
+			if (pending !== undefined) window.clearTimeout(pending);
+			const delay = Math.max(Number(profile.changeDelay) || 0, 1);
+			this.changeTimeoutIds.set(
+				profile.id,
+				window.setTimeout(() => {
+					this.changeTimeoutIds.delete(profile.id);
+					void this.publishToGitHub(profile);
+				}, delay * 1000),
+			);
+		}
+	}
+
+	/**
+	 * Checks whether a file is part of the publish selection of a profile, without reading it:
+	 * it is selected by path, by tag or by its frontmatter, and not excluded.
+	 * Attachments are only known once the notes referencing them are gathered.
+	 *
+	 * @param profile - The profile.
+	 * @param file - The file to check.
+	 * @returns True if the file is selected.
+	 */
+	isSelected(profile: PublishProfile, file: TFile): boolean {
+		if (this.isExcluded(this.app, profile, file)) return false;
+
+		const controls = getPublishControls(this.app, file);
+		const requested = isPublishRequested(controls, profile.name);
+		if (requested === false) return false;
+		if (controls.draft && !profile.publishDrafts) return false;
+		if (requested === true) return true;
+
+		const inSelectedPath = profile.selectedPaths.some((path) => {
+			const selected = normalizePath(path);
+			return (
+				selected === "/" ||
+				file.path === selected ||
+				file.path.startsWith(selected + "/")
+			);
+		});
+		if (inSelectedPath) return true;
+
+		return (
+			profile.publishTags.length > 0 &&
+			this.hasAnyTag(
+				this.app,
+				file,
+				new Set(profile.publishTags.map((t) => t.toLowerCase())),
+			)
+		);
+	}
+
+	/**
+	 * Checks that the settings required to publish a profile are complete.
+	 *
+	 * @param profile - The profile to check.
+	 * @returns True if the profile can be published.
+	 */
+	isProfileComplete(profile: PublishProfile): boolean {
+		const authenticated =
+			profile.authMethod === "oauth"
+				? !!profile.oauthToken
+				: profile.authMethod === "app"
+					? !!(profile.appId && profile.appPrivateKey)
+					: !!profile.githubToken;
+		return !!(
+			authenticated &&
+			profile.repoUrl &&
+			profile.repoBranch &&
+			(profile.publishMode !== "pull-request" || profile.prBranch)
+		);
+	}
+
+	/**
+	 * Returns the base URL of the REST API of a profile: the configured one, or the one of
+	 * the host of its repository.
+	 *
+	 * @param profile - The profile.
+	 * @param location - The parsed repository URL of the profile.
+	 * @returns The base URL of the API.
+	 */
+	apiUrl(profile: PublishProfile, location: RepoLocation): string {
+		return profile.apiBaseUrl.trim() || location.apiUrl;
+	}
+
+	/**
+	 * Returns the token authenticating the requests of a profile, depending on its
+	 * authentication method. Expired OAuth tokens are refreshed and saved, and installation
+	 * tokens of GitHub Apps are created when missing, about to expire, or created for another
+	 * app, installation or repository.
+	 *
+	 * @param profile - The profile.
+	 * @param location - The parsed repository URL of the profile.
+	 * @returns {Promise<string>} The token.
+	 * @throws An error if the profile is not signed in, or the token cannot be refreshed or created.
+	 */
+	async getAuthToken(
+		profile: PublishProfile,
+		location: RepoLocation,
+	): Promise<string> {
+		if (profile.authMethod === "oauth") {
+			const token = profile.oauthToken;
+			if (!token) throw new Error("not signed in to GitHub");
+			if (token.expiresAt && token.expiresAt - 60 * 1000 < Date.now()) {
+				let refreshed: OAuthToken;
+				try {
+					refreshed = await refreshOAuthToken(
+						location.baseUrl,
+						profile.oauthClientId.trim(),
+						token,
+					);
+				} catch (e) {
+					profile.oauthToken = null;
+					await this.saveSettings();
+					throw new Error(
+						`${e instanceof Error ? e.message : String(e)}, sign in again`,
+					);
+				}
+				profile.oauthToken = refreshed;
+				await this.saveSettings();
+				return refreshed.accessToken;
+			}
+			return token.accessToken;
+		}
+
+		if (profile.authMethod === "app") {
+			// A token created for another app, installation or repository is not reused
+			const apiUrl = this.apiUrl(profile, location);
+			const credentials = JSON.stringify([
+				apiUrl,
+				profile.appId,
+				profile.appPrivateKey,
+				profile.appInstallationId,
+				location.owner,
+				location.repo,
+			]);
+			const cached = this.installationTokens.get(profile.id);
+			if (
+				cached?.credentials === credentials &&
+				cached.token.expiresAt - 5 * 60 * 1000 > Date.now()
+			) {
+				return cached.token.token;
+			}
+			const token = await createInstallationToken(
+				apiUrl,
+				profile.appId,
+				profile.appPrivateKey,
+				profile.appInstallationId,
+				location.owner,
+				location.repo,
+			);
+			this.installationTokens.set(profile.id, { credentials, token });
+			return token.token;
+		}
+
+		return profile.githubToken;
+	}
+
+	/**
+	 * Creates an Octokit instance authenticated for a profile, on the API of its host.
+	 *
+	 * @param profile - The profile.
+	 * @param location - The parsed repository URL of the profile.
+	 * @param signal - Aborts the requests of the instance (none if never aborted).
+	 * @returns {Promise<Octokit>} The Octokit instance.
+	 */
+	async createProfileOctokit(
+		profile: PublishProfile,
+		location: RepoLocation,
+		signal?: AbortSignal,
+	): Promise<Octokit> {
+		return createOctokit(
+			await this.getAuthToken(profile, location),
+			this.apiUrl(profile, location),
+			signal,
+		);
+	}
+
+	/**
+	 * Signs a profile in to GitHub with the OAuth device flow: shows the code to enter on
+	 * GitHub, waits for the user to authorize the app, and saves the token.
+	 *
+	 * @param profile - The profile to sign in.
+	 * @returns {Promise<void>} Resolves when the profile is signed in, or the sign in failed or was cancelled.
+	 */
+	async signInWithGitHub(profile: PublishProfile): Promise<void> {
+		const clientId = profile.oauthClientId.trim();
+		if (!clientId || !profile.repoUrl) {
+			new Notice(
+				"GitHub publisher: set the repository URL and the client ID first",
+			);
+			return;
+		}
+
+		const controller = new AbortController();
+		try {
+			const location = parseRepoUrl(profile.repoUrl);
+			const device = await requestDeviceCode(location.baseUrl, clientId);
+			const modal = new DeviceFlowModal(this.app, device, () =>
+				controller.abort(),
+			);
+			modal.open();
+			let token: OAuthToken;
+			try {
+				token = await pollDeviceToken(
+					location.baseUrl,
+					clientId,
+					device,
+					controller.signal,
+				);
+			} finally {
+				modal.finish();
+			}
+
+			const octokit = createOctokit(
+				token.accessToken,
+				this.apiUrl(profile, location),
+			);
+			const { data } = await octokit.rest.users.getAuthenticated();
+			profile.oauthToken = { ...token, login: data.login };
+			await this.saveSettings();
+			new Notice(`GitHub publisher: signed in as ${data.login}`);
+		} catch (e) {
+			if (controller.signal.aborted) return;
+			new Notice(
+				`GitHub publisher: sign in failed, ${e instanceof Error ? e.message : String(e)}`,
+			);
+		}
+	}
+
+	/**
+	 * Tests the settings of a profile against its repository.
+	 *
+	 * @param profile - The profile to test.
+	 * @returns {Promise<ConnectionTestResult>} The result of each check.
+	 */
+	async testProfileConnection(
+		profile: PublishProfile,
+	): Promise<ConnectionTestResult> {
+		return testConnection(profile, (location) =>
+			this.createProfileOctokit(profile, location),
+		);
+	}
+
+	/**
+	 * Creates the branch of a profile from the default branch of its repository.
+	 *
+	 * @param profile - The profile.
+	 * @returns {Promise<void>} Resolves when the branch is created.
+	 */
+	async createProfileBranch(profile: PublishProfile): Promise<void> {
+		const location = parseRepoUrl(profile.repoUrl);
+		const octokit = await this.createProfileOctokit(profile, location);
+		await createBranch(
+			octokit,
+			location.owner,
+			location.repo,
+			profile.repoBranch.trim(),
+		);
+	}
+
+	/**
+	 * Registers a "Publish profile X" command for each profile.
+	 * Commands of removed or renamed profiles are unregistered first.
+	 */
+	registerProfileCommands(): void {
+		const profiles = new Map(this.settings.profiles.map((p) => [p.id, p]));
+
+		// Remove commands of deleted or renamed profiles
+		for (const [id, name] of this.profileCommands) {
+			if (profiles.get(id)?.name !== name) {
+				this.removeCommand(`publish-profile-${id}`);
+				this.profileCommands.delete(id);
+			}
+		}
+
+		// Add commands of new profiles
+		for (const profile of profiles.values()) {
+			if (this.profileCommands.has(profile.id)) continue;
+			this.addCommand({
+				id: `publish-profile-${profile.id}`,
+				name: `Publish profile ${profile.name}`,
+				callback: () => {
+					const current = this.settings.profiles.find(
+						(p) => p.id === profile.id,
+					);
+					if (current) void this.publishToGitHub(current, true);
+				},
+			});
+			this.profileCommands.set(profile.id, profile.name);
+		}
+	}
+
+	/**
+	 * Clears the synchronization intervals if they are currently set.
+	 * This will stop any ongoing periodic sync operations.
+	 */
+	clearIntervals() {
+		for (const { id } of this.syncIntervals.values()) {
+			window.clearInterval(id);
+		}
+		this.syncIntervals.clear();
+	}
+
+	/**
+	 * Sets up a periodic synchronization interval to GitHub for each profile in "interval" mode.
+	 * Profiles with incomplete settings or whose sync interval is not a positive number are skipped.
+	 * Only the intervals whose period changed are recreated, so that saving the settings (or
+	 * publishing another profile) does not restart the timers of the other profiles.
+	 *
+	 * @returns {void}
+	 */
+	setupSyncIntervals(): void {
+		// Period in minutes of each profile publishing on an interval
+		const periods = new Map<string, number>();
+		for (const profile of this.settings.profiles) {
+			// Check that all settings are complete and the profile publishes on an interval
+			if (!this.isProfileComplete(profile)) continue;
+			if (profile.syncMode !== "interval") continue;
+
+			// If syncInterval is not a positive number skip the profile
+			const minutes = Number(profile.syncInterval);
+			if (isNaN(minutes) || minutes <= 0) continue;
+			periods.set(profile.id, minutes);
+		}
+
+		// Clear the intervals of removed profiles and of changed periods
+		for (const [profileId, { id, minutes }] of this.syncIntervals) {
+			if (periods.get(profileId) !== minutes) {
+				window.clearInterval(id);
+				this.syncIntervals.delete(profileId);
+			}
+		}
+
+		// Set up the missing intervals to sync to GitHub
+		for (const [profileId, minutes] of periods) {
+			if (this.syncIntervals.has(profileId)) continue;
+			const id = this.registerInterval(
+				window.setInterval(
+					() => {
+						const profile = this.settings.profiles.find(
+							(p) => p.id === profileId,
+						);
+						if (profile) void this.publishToGitHub(profile);
+					},
+					minutes * 60 * 1000,
+				),
+			);
+			this.syncIntervals.set(profileId, { id, minutes });
+		}
+	}
+
+	/**
+	 * Updates the lastSyncDate of the profile to the current date and time in ISO format,
+	 * then saves the updated settings asynchronously. The settings change handler is not
+	 * triggered, as nothing it configures depends on the date.
+	 *
+	 * @param profile - The published profile.
+	 */
+	async updateLastSyncDate(profile: PublishProfile) {
+		profile.lastSyncDate = new Date().toISOString();
+		await this.saveData(this.settings);
+
+		if (this.settingTab && this.settingTab.active) {
+			this.settingTab.display();
+		}
+	}
+
+	/**
+	 * Publishes every profile, one after the other.
+	 *
+	 * @returns {Promise<void>} Resolves when all profiles have been published.
+	 */
+	async publishAll(): Promise<void> {
+		if (this.settings.profiles.length === 0) {
+			new Notice("GitHub publisher: no publish profile configured");
+			return;
+		}
+		for (const profile of this.settings.profiles) {
+			await this.publishToGitHub(profile, true);
+		}
+	}
+
+	/**
+	 * Synchronizes the local files and folders selected in a profile to its GitHub repository.
+	 *
+	 * The publish is queued behind the running one, if any, and joins the publish of the
+	 * profile already waiting in the queue. When its turn comes, this method computes the
+	 * publish plan of the profile and applies it right away (once the user entered the commit
+	 * message, for manual publishes of profiles asking for it).
+	 *
+	 * @async
+	 * @param profile - The profile to publish.
+	 * @param manual - Whether the publish was requested by the user.
+	 * @throws Will display a notice and log an error if synchronization fails.
+	 * @returns {Promise<void>} Resolves when synchronization is complete or if no changes are detected.
+	 */
+	async publishToGitHub(
+		profile: PublishProfile,
+		manual = false,
+	): Promise<void> {
+		if (manual && this.publishQueue.running) {
+			new Notice(
+				`GitHub Publisher (${profile.name}): queued after the running publish`,
+			);
+		}
+		await this.publishQueue.enqueue(
+			profile,
+			manual,
+			(job) =>
+				this.trackPublish(profile, job, async () => {
+					const plan = await this.buildPublishPlan(profile, job);
+					if (!plan) return null;
+					if (job.manual && !(await this.promptCommitMessage(plan))) {
+						return null;
+					}
+					return this.applyPublishPlan(plan);
+				}),
+			`publish:${profile.id}`,
+		);
+	}
+
+	/**
+	 * Cancels the running publish, aborting its requests, and drops the queued ones.
+	 * A publish updating its branch completes, so the branch is never left half updated.
+	 */
+	cancelPublish(): void {
+		const { cancelled, committing } = this.publishQueue.cancel();
+		if (committing) {
+			new Notice(
+				"GitHub publisher: the running publish is updating the branch and cannot be cancelled anymore",
+			);
+		} else if (cancelled === 0) {
+			new Notice("GitHub publisher: no publish to cancel");
+		}
+	}
+
+	/**
+	 * Asks the user for the commit message of a plan, if its profile asks for it and there
+	 * is something to commit. The message is stored in the plan.
+	 *
+	 * @param plan - The publish plan.
+	 * @returns {Promise<boolean>} False if the user cancelled the publish.
+	 */
+	private async promptCommitMessage(plan: PublishPlan): Promise<boolean> {
+		if (!plan.profile.promptCommitMessage || plan.changes.length === 0) {
+			return true;
+		}
+		const message = await this.openJobModal<string | null>(
+			plan.job,
+			(resolve) =>
+				new CommitMessageModal(
+					this.app,
+					plan.commitMessage ??
+						renderCommitMessage(plan.profile.commitMessage, plan),
+					resolve,
+				),
+		);
+		plan.job.signal.throwIfAborted();
+		if (message === null) return false;
+		plan.commitMessage = message;
+		return true;
+	}
+
+	/**
+	 * Opens a modal of a publish job and waits for its answer. The modal is closed if the job
+	 * is cancelled, so that the queue is not blocked until the user closes it.
+	 *
+	 * @param job - The publish job.
+	 * @param createModal - Creates the modal, which calls resolve with its answer when closed.
+	 * @returns {Promise<T>} The answer of the modal.
+	 */
+	private async openJobModal<T>(
+		job: PublishJob,
+		createModal: (resolve: (value: T) => void) => Modal,
+	): Promise<T> {
+		job.signal.throwIfAborted();
+		let modal: Modal | null = null;
+		const closeModal = () => modal?.close();
+		job.signal.addEventListener("abort", closeModal);
+		try {
+			return await new Promise<T>((resolve) => {
+				modal = createModal(resolve);
+				modal.open();
+			});
+		} finally {
+			job.signal.removeEventListener("abort", closeModal);
+		}
+	}
+
+	/**
+	 * Runs a publish of a profile, showing its progress in the status bar and recording it
+	 * in the publish history. Errors are reported to the user.
+	 * Publishes without changes are not recorded, as periodic publishes would fill the history.
+	 *
+	 * Cancelled publishes are not recorded either.
+	 *
+	 * @param profile - The published profile.
+	 * @param job - The job running the publish.
+	 * @param publish - Runs the publish, resolves with its outcome (or null if nothing was attempted).
+	 * @returns {Promise<void>} Resolves when the publish is complete.
+	 */
+	private async trackPublish(
+		profile: PublishProfile,
+		job: PublishJob,
+		publish: () => Promise<PublishResult | null>,
+	): Promise<void> {
+		const start = new Date();
+		this.statusBar?.start(profile.name);
+		let record: PublishRecord | null = null;
+		let error: string | undefined = undefined;
+		try {
+			const result = await publish();
+			const changes = result?.plan.changes ?? [];
+			if (result && (changes.length > 0 || result.url)) {
+				record = {
+					profileId: profile.id,
+					profileName: profile.name,
+					date: start.toISOString(),
+					duration: Date.now() - start.getTime(),
+					status: "success",
+					repository: `${result.plan.owner}/${result.plan.repo}`,
+					commitSha: result.commitSha,
+					url: result.url,
+					added: changes.filter((c) => c.action === "added").length,
+					modified: changes.filter((c) => c.action === "modified")
+						.length,
+					deleted: changes.filter((c) => c.action === "deleted")
+						.length,
+				};
+			}
+		} catch (e) {
+			if (job.signal.aborted) {
+				new Notice(
+					`GitHub Publisher (${profile.name}): publish cancelled`,
+				);
+				return;
+			}
+			this.handlePublishError(profile, e);
+			error = e instanceof Error ? e.message : String(e);
+			let repository = "";
+			try {
+				const { owner, repo } = parseRepoUrl(profile.repoUrl);
+				repository = `${owner}/${repo}`;
+			} catch {
+				// Invalid URL, reported by the error itself
+			}
+			record = {
+				profileId: profile.id,
+				profileName: profile.name,
+				date: start.toISOString(),
+				duration: Date.now() - start.getTime(),
+				status: "error",
+				repository,
+				added: 0,
+				modified: 0,
+				deleted: 0,
+				error,
+			};
+		} finally {
+			this.statusBar?.finish(profile.name, error);
+		}
+
+		if (record) {
+			await addHistoryRecord(
+				this.app,
+				this.dataFilePath("history.json"),
+				this.history,
+				record,
+			);
+			this.refreshHistoryViews();
+		}
+	}
+
+	/**
+	 * Re-renders the open publish history views.
+	 */
+	refreshHistoryViews(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(
+			VIEW_TYPE_HISTORY,
+		)) {
+			if (leaf.view instanceof PublishHistoryView) leaf.view.render();
+		}
+	}
+
+	/**
+	 * Opens a view of the plugin in the right sidebar, or reveals it if already open.
+	 *
+	 * @param type - The type of the view.
+	 * @returns {Promise<void>} Resolves when the view is revealed.
+	 */
+	async openSidebarView(type: string): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(type)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Refreshes the publish states once the vault stopped changing for a moment.
+	 */
+	scheduleStatusRefresh(): void {
+		if (this.statusTimeoutId !== null) {
+			window.clearTimeout(this.statusTimeoutId);
+		}
+		this.statusTimeoutId = window.setTimeout(() => {
+			this.statusTimeoutId = null;
+			this.updatePublishStatuses();
+		}, 500);
+	}
+
+	/**
+	 * Computes the publish state of the files of the publish selections of every profile, from
+	 * the sync state of their last publish, then refreshes the file explorer and the published
+	 * notes views. No file is read and the repository is not queried.
+	 */
+	updatePublishStatuses(): void {
+		const statuses = new Map<string, FilePublishStatus>();
+		for (const profile of this.settings.profiles) {
+			let target: string;
+			try {
+				const { owner, repo } = parseRepoUrl(profile.repoUrl);
+				target = this.syncTarget(profile, owner, repo);
+			} catch {
+				continue;
+			}
+			const cached = this.syncState.profiles[profile.id];
+			const state = cached?.target === target ? cached : undefined;
+			const publishedPaths = new Set(profile.publishedPaths);
+			for (const file of this.gatherLocalFiles(profile)) {
+				mergeFileStatus(
+					statuses,
+					file.vaultPath,
+					fileStatus(file, publishedPaths, state),
+					profile.name,
+				);
+			}
+		}
+		this.publishStatuses = statuses;
+
+		this.explorerDecorations?.refresh();
+		for (const leaf of this.app.workspace.getLeavesOfType(
+			VIEW_TYPE_PUBLISHED_NOTES,
+		)) {
+			if (leaf.view instanceof PublishedNotesView) leaf.view.render();
+		}
+	}
+
+	/**
+	 * Computes the publish plan of a profile and opens a modal listing its changes.
+	 * The plan is applied only once the user confirms, without the entries they excluded.
+	 * The preview runs in the publish queue, so the plan is not outdated by another publish.
+	 *
+	 * @async
+	 * @param profile - The profile to preview.
+	 * @returns {Promise<void>} Resolves when the preview is closed, or its plan applied.
+	 */
+	async previewPublish(profile: PublishProfile): Promise<void> {
+		await this.publishQueue.enqueue(profile, true, (job) =>
+			this.trackPublish(profile, job, async () => {
+				const plan = await this.buildPublishPlan(profile, job);
+				if (!plan) return null;
+				if (plan.changes.length === 0) {
+					new Notice(
+						`GitHub Publisher (${profile.name}): nothing to publish`,
+					);
+					return null;
+				}
+
+				const changes = await this.openJobModal<PublishChange[] | null>(
+					job,
+					(resolve) =>
+						new PublishPreviewModal(this.app, plan, resolve),
+				);
+				job.signal.throwIfAborted();
+				if (!changes) return null;
+				plan.skippedPaths = plan.changes
+					.filter((c) => !changes.includes(c))
+					.map((c) => c.repoPath);
+				plan.changes = changes;
+				if (!(await this.promptCommitMessage(plan))) return null;
+				return this.applyPublishPlan(plan);
+			}),
+		);
+	}
+
+	/**
+	 * Runs the callback with the profile chosen by the user.
+	 * The choice is skipped when there is a single profile.
+	 *
+	 * @param callback - The callback to run with the chosen profile.
+	 * @param profiles - The profiles to choose from (every profile by default).
+	 */
+	chooseProfile(
+		callback: (profile: PublishProfile) => void,
+		profiles = this.settings.profiles,
+	): void {
+		if (profiles.length === 0) {
+			new Notice("GitHub publisher: no publish profile configured");
+		} else if (profiles.length === 1) {
+			callback(profiles[0]);
+		} else {
+			new ProfileSuggestModal(this.app, profiles, callback).open();
+		}
+	}
+
+	/**
+	 * Computes the changes needed to make the repository match the local files selected in a profile.
+	 *
+	 * This method performs the following steps:
+	 * 1. Validates GitHub settings and selected paths.
+	 * 2. Gathers local files from the vault, and reads and transforms those changed since they
+	 *    were last read (according to the sync state).
+	 * 3. Fetches the latest commit and tree from the target GitHub repository branch, unless
+	 *    the branch did not move since the last publish.
+	 * 4. In two-way sync mode, pulls the files changed on GitHub since their last sync into the
+	 *    vault, asking the user to resolve conflicts, then computes the plan again.
+	 * 5. Maps remote files in the target folder and compares their SHA with the local files
+	 *    to list additions, modifications and deletions.
+	 *
+	 * Nothing is written to the repository. With a scope, only the changes of the files in the
+	 * scope and the deletions it lists are planned, and only those files are read.
+	 *
+	 * @async
+	 * @param profile - The profile to publish.
+	 * @param job - The job running the publish, for its progress and cancellation.
+	 * @param scope - The part of the selection to publish (none to publish the whole selection).
+	 * @returns {Promise<PublishPlan | null>} The publish plan, or null if the settings are invalid or the user did not resolve the sync conflicts.
+	 */
+	async buildPublishPlan(
+		profile: PublishProfile,
+		job: PublishJob,
+		scope?: PublishScope,
+	): Promise<PublishPlan | null> {
+		job.report("preparing");
+
+		// Check that all settings are complete
+		if (!this.isProfileComplete(profile)) {
+			new Notice(
+				`GitHub publisher: incomplete settings for profile ${profile.name}, check them with "Test connection" in the settings`,
+			);
+			return null;
+		}
+
+		// Retrieve host, owner and repo from the URL, branch, and folder settings
+		const location = parseRepoUrl(profile.repoUrl);
+		const { owner, repo, webUrl } = location;
+
+		// Set up Octokit with the token of the profile, on the API of the host
+		const octokit = await this.createProfileOctokit(
+			profile,
+			location,
+			job.signal,
+		);
+		const branch = profile.repoBranch;
+		const localFiles = this.gatherLocalFiles(profile);
+
+		// Remember the gathered files, to detect changes to them
+		this.lastGathered.set(
+			profile.id,
+			new Set(localFiles.map((f) => f.vaultPath)),
+		);
+
+		// Abort if several files are published to the same repo path
+		checkPathCollisions(localFiles);
+
+		// Folders managed in the repo: the target folder (and attachments folder)
+		const managedFolders = this.managedFolders(profile);
+		const syncTarget = this.syncTarget(profile, owner, repo);
+		const cached = this.syncState.profiles[profile.id];
+		const syncState = cached?.target === syncTarget ? cached : undefined;
+
+		// Read the files changed since they were last read, reuse the blob SHA of the others
+		const transforms = this.createTransforms(profile);
+		const context: TransformContext = {
+			app: this.app,
+			repoPaths: new Map(
+				localFiles.map((f) => [f.vaultPath, f.repoPath]),
+			),
+			warnings: [],
+		};
+		const fingerprint = await this.contentFingerprint(profile, localFiles);
+		const fileStates =
+			syncState?.fingerprint === fingerprint ? syncState.files : {};
+		const inScope = (file: LocalFile) =>
+			!scope || scope.vaultPaths.has(file.vaultPath);
+		// Files outside the scope are not read, but keep their cached SHA for the next publishes
+		const staleFiles = localFiles.filter((file) => {
+			const state = fileStates[file.vaultPath];
+			if (
+				state &&
+				state.mtime === file.stat.mtime &&
+				state.size === file.stat.size
+			) {
+				file.sha = state.sha;
+				return false;
+			}
+			return inScope(file);
+		});
+		for (const [index, file] of staleFiles.entries()) {
+			job.signal.throwIfAborted();
+			job.report("hashing", index, staleFiles.length);
+			await this.readLocalFile(file, transforms, context);
+		}
+		job.report("preparing");
+
+		// Get latest commit and tree, unless the branch did not move since the last publish
+		const ref = await octokit.rest.git.getRef({
+			owner,
+			repo,
+			ref: `heads/${branch}`,
+		});
+		const latestCommitSha = ref.data.object.sha;
+		let baseTreeSha: string;
+		const remoteFiles = new Map<string, RemoteFile>(); // path -> blob SHA and size
+		if (syncState?.commitSha === latestCommitSha) {
+			baseTreeSha = syncState.treeSha;
+			for (const [path, remote] of Object.entries(
+				syncState.remoteFiles,
+			)) {
+				remoteFiles.set(path, remote);
+			}
+		} else {
+			const latestCommit = await octokit.rest.git.getCommit({
+				owner,
+				repo,
+				commit_sha: latestCommitSha,
+			});
+			baseTreeSha = latestCommit.data.tree.sha;
+			const baseTree = await octokit.rest.git.getTree({
+				owner,
+				repo,
+				tree_sha: baseTreeSha,
+				recursive: "true",
+			});
+			for (const obj of baseTree.data.tree) {
+				if (
+					obj.type === "blob" &&
+					obj.path &&
+					managedFolders.some((folder) =>
+						isInRepoFolder(obj.path ?? "", folder),
+					)
+				) {
+					remoteFiles.set(obj.path, {
+						sha: obj.sha || "",
+						size: obj.size ?? 0,
+					});
+				}
+			}
+		}
+
+		// Two-way sync: pull the files changed on GitHub, then plan again with their new content
+		if (profile.twoWaySync && syncState) {
+			const pulled = await this.pullRemoteChanges(
+				profile,
+				job,
+				octokit,
+				owner,
+				repo,
+				syncState,
+				localFiles.filter(inScope),
+				remoteFiles,
+			);
+			if (pulled === null) return null;
+			if (pulled) return this.buildPublishPlan(profile, job, scope);
+		}
+
+		const localRepoPaths = new Set(localFiles.map((f) => f.repoPath));
+
+		// Add or update files (if content changed)
+		const changes: PublishChange[] = [];
+		for (const file of localFiles.filter(inScope)) {
+			// Remote and local sha to check for changes
+			const remote = remoteFiles.get(file.repoPath);
+			if (file.sha === remote?.sha) continue;
+
+			// The content is needed to upload the file
+			if (file.content === undefined && file.binary === undefined) {
+				await this.readLocalFile(file, transforms, context);
+			}
+			if (file.sha === undefined || file.sha === remote?.sha) continue;
+
+			changes.push({
+				action: remote ? "modified" : "added",
+				repoPath: file.repoPath,
+				size: localFileSize(file),
+				file,
+			});
+		}
+
+		// Delete files in the repo folder that are not in localFiles, according to the deletion mode
+		const publishedPaths = new Set(profile.publishedPaths);
+		for (const [remotePath, remote] of remoteFiles) {
+			// Partial publishes only delete the files they unpublish, whatever the deletion mode
+			const deletable = scope
+				? scope.deletedPaths.has(remotePath) &&
+					!matchesAnyPattern(remotePath, profile.protectedPatterns)
+				: this.isDeletable(profile, publishedPaths, remotePath);
+			if (!localRepoPaths.has(remotePath) && deletable) {
+				changes.push({
+					action: "deleted",
+					repoPath: remotePath,
+					size: remote.size,
+				});
+			}
+		}
+
+		return {
+			profile,
+			octokit,
+			job,
+			owner,
+			repo,
+			webUrl,
+			branch,
+			headSha: latestCommitSha,
+			baseTreeSha,
+			changes,
+			remoteFiles,
+			localFiles,
+			warnings: context.warnings,
+			skippedPaths: [],
+			scope,
+			syncTarget,
+			fingerprint,
+		};
+	}
+
+	/**
+	 * Pulls into the vault the files changed on GitHub since their last sync (two-way sync mode).
+	 *
+	 * A file is pulled only if its vault content is still the content of its last sync. Files
+	 * that changed in the vault too, or that are transformed when published, are conflicts:
+	 * the user chooses to keep the vault version, which is then published over the GitHub
+	 * version, or the GitHub version, which replaces the vault version. The GitHub version of
+	 * a transformed note is its published form (converted links, frontmatter rules), so it
+	 * never replaces the note. Files deleted on GitHub are not deleted from the vault.
+	 *
+	 * Conflicts are only resolved in manual publishes: automatic publishes fail instead of
+	 * waiting for a user who may not be there. Cancelling the publish closes the conflicts.
+	 *
+	 * @param profile - The published profile.
+	 * @param job - The job running the publish, for its cancellation and whether it is manual.
+	 * @param octokit - The Octokit instance of the profile.
+	 * @param owner - The owner of the repository.
+	 * @param repo - The name of the repository.
+	 * @param syncState - The sync state of the profile, whose synced blob SHAs are updated.
+	 * @param files - The gathered files, with the blob SHA of their published content.
+	 * @param remoteFiles - The remote files at the head of the branch.
+	 * @returns {Promise<boolean | null>} True if files were written to the vault, null if the user cancelled.
+	 * @throws An error if an automatic publish has conflicts.
+	 */
+	private async pullRemoteChanges(
+		profile: PublishProfile,
+		job: PublishJob,
+		octokit: Octokit,
+		owner: string,
+		repo: string,
+		syncState: ProfileSyncState,
+		files: LocalFile[],
+		remoteFiles: Map<string, RemoteFile>,
+	): Promise<boolean | null> {
+		const synced = (syncState.synced ??= {});
+		const pulls: {
+			file: TFile;
+			repoPath: string;
+			sha: string;
+			content: ArrayBuffer;
+		}[] = [];
+		const conflicts: SyncConflict[] = [];
+		for (const file of files) {
+			const remote = remoteFiles.get(file.repoPath);
+			const base = synced[file.repoPath];
+			if (!remote || !base || remote.sha === base) continue;
+			const vaultFile = this.app.vault.getAbstractFileByPath(
+				file.vaultPath,
+			);
+			if (!(vaultFile instanceof TFile)) continue;
+
+			job.signal.throwIfAborted();
+			const local = await this.app.vault.readBinary(vaultFile);
+			const localSha = await this.gitBlobSha1(local);
+			if (localSha === remote.sha) {
+				synced[file.repoPath] = remote.sha;
+				continue;
+			}
+			const { data } = await octokit.rest.git.getBlob({
+				owner,
+				repo,
+				file_sha: remote.sha,
+			});
+			const content = base64ToArrayBuffer(
+				data.content.replace(/\n/g, ""),
+			);
+			if (localSha === base) {
+				pulls.push({
+					file: vaultFile,
+					repoPath: file.repoPath,
+					sha: remote.sha,
+					content,
+				});
+				continue;
+			}
+			const decode = (buffer: ArrayBuffer) =>
+				isTextBuffer(buffer)
+					? new TextDecoder("utf-8").decode(buffer)
+					: null;
+			conflicts.push({
+				vaultPath: file.vaultPath,
+				repoPath: file.repoPath,
+				localChanged: file.sha !== base,
+				transformed: file.sha !== localSha,
+				remoteSha: remote.sha,
+				remote: content,
+				localText: decode(local),
+				remoteText: decode(content),
+			});
+		}
+
+		if (conflicts.length > 0 && !job.manual) {
+			await this.saveSyncState();
+			throw new Error(
+				`${conflicts.length} file(s) changed on GitHub cannot be pulled, publish manually to resolve the conflicts`,
+			);
+		}
+
+		// Stop until the user resolved every conflict, or cancelled the publish
+		if (conflicts.length > 0) {
+			const resolutions = await this.openJobModal<Map<
+				SyncConflict,
+				ConflictResolution
+			> | null>(
+				job,
+				(resolve) =>
+					new SyncConflictModal(
+						this.app,
+						profile.name,
+						conflicts,
+						resolve,
+					),
+			);
+			job.signal.throwIfAborted();
+			if (!resolutions) {
+				await this.saveSyncState();
+				new Notice(
+					`GitHub Publisher (${profile.name}): publish cancelled, sync conflicts not resolved`,
+				);
+				return null;
+			}
+			for (const [conflict, resolution] of resolutions) {
+				if (resolution === "local") {
+					// The GitHub version is overwritten by the next upload
+					synced[conflict.repoPath] = conflict.remoteSha;
+					continue;
+				}
+				const vaultFile = this.app.vault.getAbstractFileByPath(
+					conflict.vaultPath,
+				);
+				if (vaultFile instanceof TFile) {
+					pulls.push({
+						file: vaultFile,
+						repoPath: conflict.repoPath,
+						sha: conflict.remoteSha,
+						content: conflict.remote,
+					});
+				}
+			}
+		}
+
+		for (const { file, repoPath, sha, content } of pulls) {
+			await this.app.vault.modifyBinary(file, content);
+			synced[repoPath] = sha;
+		}
+		await this.saveSyncState();
+		if (pulls.length > 0) {
+			new Notice(
+				`GitHub Publisher (${profile.name}): pulled ${pulls.length} file(s) changed on GitHub`,
+			);
+		}
+		return pulls.length > 0;
+	}
+
+	/**
+	 * Checks whether a remote file that is not published anymore can be deleted.
+	 *
+	 * Files matching a protected pattern are never deleted. Otherwise, depending on the
+	 * deletion mode of the profile, files are always deleted (mirror), never deleted, or
+	 * deleted only if the plugin published them (managed).
+	 *
+	 * @param profile - The published profile.
+	 * @param publishedPaths - The repo paths previously published by the plugin.
+	 * @param remotePath - The repo path of the remote file.
+	 * @returns True if the file can be deleted.
+	 */
+	private isDeletable(
+		profile: PublishProfile,
+		publishedPaths: Set<string>,
+		remotePath: string,
+	): boolean {
+		if (matchesAnyPattern(remotePath, profile.protectedPatterns)) {
+			return false;
+		}
+		switch (profile.deletionMode) {
+			case "never":
+				return false;
+			case "managed":
+				return publishedPaths.has(remotePath);
+			default:
+				return true;
+		}
+	}
+
+	/**
+	 * Updates the manifest of the repo paths published by the plugin after a plan has been applied:
+	 * gathered files now present in the repository are added, deleted files are removed.
+	 *
+	 * @param plan - The applied plan.
+	 */
+	private updatePublishedPaths(plan: PublishPlan): void {
+		const applied = new Map(plan.changes.map((c) => [c.repoPath, c]));
+		const publishedPaths = new Set(plan.profile.publishedPaths);
+		for (const { repoPath: path } of plan.localFiles) {
+			const change = applied.get(path);
+			if (plan.remoteFiles.has(path) || change) publishedPaths.add(path);
+		}
+		for (const change of plan.changes) {
+			if (change.action === "deleted") {
+				publishedPaths.delete(change.repoPath);
+			}
+		}
+		plan.profile.publishedPaths = [...publishedPaths];
+	}
+
+	/**
+	 * Applies a publish plan to the repository.
+	 *
+	 * If the branch is updated by someone else during the publish, the plan is computed again on
+	 * top of the new head of the branch (without the changes excluded by the user in the preview)
+	 * and applied again, up to a few times.
+	 *
+	 * @async
+	 * @param plan - The plan to apply.
+	 * @throws An error if the branch kept moving during every attempt.
+	 * @returns {Promise<PublishResult | null>} The outcome of the publish, or null if the settings became invalid.
+	 */
+	async applyPublishPlan(plan: PublishPlan): Promise<PublishResult | null> {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await this.commitPublishPlan(plan);
+			} catch (e) {
+				if (!isNonFastForwardError(e)) throw e;
+				if (attempt >= MAX_PUSH_ATTEMPTS) {
+					throw new Error(
+						`the branch ${plan.branch} was updated by someone else during each of the last ${attempt} attempts, publish again later`,
+					);
+				}
+
+				// Compute the changes again on top of the new head
+				const rebased = await this.buildPublishPlan(
+					plan.profile,
+					plan.job,
+					plan.scope,
+				);
+				if (!rebased) return null;
+				rebased.skippedPaths = plan.skippedPaths;
+				rebased.commitMessage = plan.commitMessage;
+				rebased.changes = rebased.changes.filter(
+					(c) => !plan.skippedPaths.includes(c.repoPath),
+				);
+				plan = rebased;
+			}
+		}
+	}
+
+	/**
+	 * Applies a publish plan to the repository, once.
+	 *
+	 * This method performs the following steps:
+	 * 1. Uploads the content of added and modified files as blobs, a few at a time, reusing the blobs
+	 *    already in the repository (including those uploaded by a publish that failed).
+	 * 2. If there are changes, creates a new tree and commit, and updates the branch reference
+	 *    (or the publish branch and its pull request, in pull request mode).
+	 * 3. Updates the last sync date and notifies the user of the warnings.
+	 *
+	 * @async
+	 * @param plan - The plan to apply.
+	 * @throws A request error if the branch was updated by someone else since the plan was computed.
+	 * @returns {Promise<PublishResult>} The outcome of the publish.
+	 */
+	private async commitPublishPlan(plan: PublishPlan): Promise<PublishResult> {
+		const { profile, octokit, job, owner, repo, branch } = plan;
+
+		// Prepare the new tree:
+		type TreeItem =
+			RestEndpointMethodTypes["git"]["createTree"]["parameters"]["tree"][number];
+		const tree: TreeItem[] = [];
+
+		// Blobs already in the repository: remote files, and blobs uploaded by publishes that did not complete
+		const repoKey = `${owner}/${repo}`;
+		const uploadedBlobs = (this.syncState.blobs[repoKey] ??= {});
+		const knownBlobs = new Set(
+			[...plan.remoteFiles.values()].map((r) => r.sha),
+		);
+		for (const [sha, uploadedAt] of Object.entries(uploadedBlobs)) {
+			if (Date.now() - uploadedAt < UPLOADED_BLOB_LIFETIME) {
+				knownBlobs.add(sha);
+			} else {
+				delete uploadedBlobs[sha];
+			}
+		}
+
+		// Uploads an added or modified file, or returns the tree item of a deleted or known file
+		const uploadChange = async (
+			change: PublishChange,
+		): Promise<TreeItem | null> => {
+			const file = change.file;
+			if (change.action === "deleted" || !file) {
+				return {
+					path: change.repoPath,
+					mode: "100644",
+					type: "blob",
+					sha: "", // To delete a file, set sha to an empty string
+				};
+			}
+			if (file.sha && knownBlobs.has(file.sha)) {
+				return {
+					path: file.repoPath,
+					mode: "100644",
+					type: "blob",
+					sha: file.sha,
+				};
+			}
+
+			let blob;
+			if (file.isText && file.content !== undefined) {
+				// Text file
+				blob = await octokit.rest.git.createBlob({
+					owner,
+					repo,
+					content: file.content,
+					encoding: "utf-8",
+				});
+			} else if (!file.isText && file.binary !== undefined) {
+				// Binary file
+				blob = await octokit.rest.git.createBlob({
+					owner,
+					repo,
+					content: arrayBufferToBase64(file.binary),
+					encoding: "base64",
+				});
+			} else {
+				return null;
+			}
+			uploadedBlobs[blob.data.sha] = Date.now();
+			return {
+				path: file.repoPath,
+				mode: "100644",
+				type: "blob",
+				sha: blob.data.sha,
+			};
+		};
+
+		// Upload the added and modified files, a few at a time
+		let processed = 0;
+		job.report("uploading", processed, plan.changes.length);
+		try {
+			const items = await mapConcurrent(
+				plan.changes,
+				BLOB_UPLOAD_CONCURRENCY,
+				async (change): Promise<TreeItem | null> => {
+					const item = await uploadChange(change);
+					job.report("uploading", ++processed, plan.changes.length);
+					return item;
+				},
+			);
+			for (const item of items) {
+				if (item) tree.push(item);
+			}
+		} finally {
+			// Remember the uploaded blobs, so that a failed publish resumes where it stopped
+			await this.saveSyncState();
+		}
+		job.report("preparing");
+
+		// If nothing to change, stop here
+		if (tree.length === 0) {
+			await this.completePublish(plan, plan.headSha, plan.baseTreeSha);
+			return { plan };
+		}
+
+		// Create the new tree and commit
+		const newTree = await octokit.rest.git.createTree({
+			owner,
+			repo,
+			base_tree: plan.baseTreeSha,
+			tree,
+		});
+
+		// In pull request mode, skip the commit if the publish branch already holds this tree
+		const pullRequestMode = profile.publishMode === "pull-request";
+		if (
+			pullRequestMode &&
+			(await isPublishBranchUpToDate(plan, newTree.data.sha))
+		) {
+			await this.completePublish(plan, plan.headSha, plan.baseTreeSha);
+			return { plan };
+		}
+
+		const message =
+			plan.commitMessage ??
+			renderCommitMessage(profile.commitMessage, plan);
+		let identity = commitIdentity(profile);
+		let signature: string | undefined = undefined;
+		if (profile.signingFormat !== "none") {
+			// The signed content must match the commit rebuilt by GitHub: set the identity and date explicitly.
+			// The owner of a GitHub App installation token cannot be queried, the plugin is the author instead
+			const author: CommitPerson = {
+				...(identity.author ??
+					(profile.authMethod === "app"
+						? PLUGIN_IDENTITY
+						: await tokenOwnerIdentity(octokit))),
+				date: new Date().toISOString().replace(/\.\d{3}Z$/, "Z"),
+			};
+			identity = { author, committer: author };
+			signature = await signCommitPayload(
+				profile,
+				commitPayload(
+					newTree.data.sha,
+					[plan.headSha],
+					author,
+					author,
+					message,
+				),
+			);
+		}
+		const commit = await octokit.rest.git.createCommit({
+			owner,
+			repo,
+			message,
+			tree: newTree.data.sha,
+			parents: [plan.headSha],
+			...identity,
+			signature,
+		});
+		if (signature && !commit.data.verification?.verified) {
+			const reason = commit.data.verification?.reason ?? "unknown";
+			console.warn(
+				`GitHub Publisher: publish commit ${commit.data.sha} of profile ${profile.name} is unverified (${reason})`,
+			);
+			new Notice(
+				`GitHub Publisher (${profile.name}): the publish commit was signed, but GitHub marks it as unverified (${reason})`,
+			);
+		}
+		// The branch update is not interrupted by a cancellation
+		job.startCommit();
+		if (pullRequestMode) {
+			const url = await publishPullRequest(plan, commit.data.sha);
+
+			// The configured branch did not move
+			await this.completePublish(plan, plan.headSha, plan.baseTreeSha);
+			return { plan, commitSha: commit.data.sha, url };
+		} else {
+			await octokit.rest.git.updateRef({
+				owner,
+				repo,
+				ref: `heads/${branch}`,
+				sha: commit.data.sha,
+			});
+			await this.completePublish(plan, commit.data.sha, newTree.data.sha);
+			return {
+				plan,
+				commitSha: commit.data.sha,
+				url: `${plan.webUrl}/commit/${commit.data.sha}`,
+			};
+		}
+	}
 
 	/**
-	 * Initializes the plugin by loading settings, adding the settings tab and registering the sync command.
+	 * Completes a publish once the plan has been applied: updates the manifest of published paths,
+	 * the sync state and the last sync date, and notifies the user of the warnings.
 	 *
-	 * @async
-	 * @returns {Promise<void>} Resolves when the plugin has finished loading.
+	 * @param plan - The applied plan.
+	 * @param commitSha - The SHA of the head of the configured branch after the publish.
+	 * @param treeSha - The SHA of the tree of that commit.
+	 * @returns {Promise<void>} Resolves when the publish has been completed.
 	 */
-	async onload(): Promise<void> {
-		// Load settings from storage or use default values
-		await this.loadSettings();
+	private async completePublish(
+		plan: PublishPlan,
+		commitSha: string,
+		treeSha: string,
+	): Promise<void> {
+		const { profile } = plan;
+		this.updatePublishedPaths(plan);
+
+		// The remote files of the plan, with the changes applied if the branch moved
+		const remoteFiles = new Map(plan.remoteFiles);
+		if (commitSha !== plan.headSha) {
+			for (const change of plan.changes) {
+				if (change.action === "deleted") {
+					remoteFiles.delete(change.repoPath);
+				} else if (change.file?.sha) {
+					remoteFiles.set(change.repoPath, {
+						sha: change.file.sha,
+						size: change.size,
+					});
+				}
+			}
+		}
 
-		// Load the settings tab for the plugin
-		this.settingTab = new GitHubPublisherSettingTab(this.app, this);
-		this.addSettingTab(this.settingTab);
+		const files: Record<string, FileState> = {};
+		for (const file of plan.localFiles) {
+			if (file.sha === undefined) continue;
+			files[file.vaultPath] = {
+				mtime: file.stat.mtime,
+				size: file.stat.size,
+				sha: file.sha,
+			};
+		}
+		// Files identical in the vault and the repository are synced, the others keep their
+		// last synced version (files skipped in the preview, or outside a partial publish)
+		const previous = this.syncState.profiles[profile.id];
+		const synced: Record<string, string> = {};
+		if (previous?.target === plan.syncTarget) {
+			for (const [path, sha] of Object.entries(previous.synced ?? {})) {
+				if (remoteFiles.has(path)) synced[path] = sha;
+			}
+		}
+		for (const file of plan.localFiles) {
+			if (file.sha && remoteFiles.get(file.repoPath)?.sha === file.sha) {
+				synced[file.repoPath] = file.sha;
+			}
+		}
 
-		// Add a command to the command palette for manual sync
-		this.addCommand({
-			id: "publish-now",
-			name: "Publish to GitHub now",
-			callback: () => {
-				void this.publishToGitHub();
-			},
-		});
+		// Uploaded blobs are now part of the repository
+		delete this.syncState.blobs[`${plan.owner}/${plan.repo}`];
+		this.syncState.profiles[profile.id] = {
+			target: plan.syncTarget,
+			fingerprint: plan.fingerprint,
+			commitSha,
+			treeSha,
+			remoteFiles: Object.fromEntries(remoteFiles),
+			files,
+			synced,
+		};
+		await this.saveSyncState();
+		this.scheduleStatusRefresh();
+
+		await this.updateLastSyncDate(profile);
+		this.reportWarnings(profile, plan.warnings);
 	}
 
 	/**
-	 * Clears the synchronization interval if it is currently set.
-	 * This will stop any ongoing periodic sync operations.
+	 * Logs a publish error and notifies the user.
+	 *
+	 * @param profile - The profile whose publish failed.
+	 * @param e - The error.
 	 */
-	clearInterval() {
-		if (this.syncIntervalId !== null) {
-			window.clearInterval(this.syncIntervalId);
-			this.syncIntervalId = null;
-		}
+	private handlePublishError(profile: PublishProfile, e: unknown): void {
+		console.error(
+			`GitHub Publisher: error during publish of profile ${profile.name}`,
+			e,
+		);
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		new Notice(
+			`GitHub Publisher (${profile.name}): error during publish : ` +
+				errorMessage,
+		);
 	}
 
 	/**
-	 * Sets up a periodic synchronization interval to GitHub based on the user settings.
-	 * If the sync interval is not a positive number, any existing interval is cleared and no new interval is set.
-	 * Otherwise, clears any existing interval and sets a new one with the specified interval in minutes.
+	 * Creates the publish-time transformation pipeline of a profile.
 	 *
-	 * @returns {void}
+	 * @param profile - The published profile.
+	 * @returns The transformation steps, in order.
 	 */
-	setupSyncInterval(): void {
-		// Clear any existing interval before setting a new one
-		this.clearInterval();
-
-		// Check that all settings are complete
-		if (
-			!this.settings.githubToken ||
-			!this.settings.repoUrl ||
-			!this.settings.repoBranch
-		) {
-			return;
+	private createTransforms(profile: PublishProfile): ContentTransform[] {
+		const transforms: ContentTransform[] = [];
+		if (!isEmptyRules(profile.frontmatterRules)) {
+			transforms.push(
+				frontmatterRulesTransform(profile.frontmatterRules),
+			);
 		}
-
-		// If syncInterval is not a positive number abort
-		const minutes = Number(this.settings.syncInterval);
-		if (isNaN(minutes) || minutes <= 0) {
-			return;
+		if (profile.convertWikilinks) {
+			transforms.push(wikilinksTransform(profile.unpublishedLinks));
 		}
-
-		// Set up a new interval to sync to GitHub
-		this.syncIntervalId = this.registerInterval(
-			window.setInterval(
-				() => {
-					void this.publishToGitHub();
-				},
-				this.settings.syncInterval * 60 * 1000,
-			),
-		);
+		return transforms;
 	}
 
 	/**
-	 * Updates the lastSyncDate setting to the current date and time in ISO format,
-	 * then saves the updated settings asynchronously.
+	 * Reads a gathered file from the vault, detecting whether it is text or binary, runs text
+	 * files through the transformation pipeline and computes the blob SHA of the result.
+	 *
+	 * The repository path of every gathered file is known at this point, so links between
+	 * published notes can be resolved to their final location.
+	 *
+	 * @param file - The gathered file, modified in place.
+	 * @param transforms - The transformation steps.
+	 * @param context - The transformation context, collecting the warnings.
+	 * @returns {Promise<void>} Resolves when the file has been read.
 	 */
-	async updateLastSyncDate() {
-		this.settings.lastSyncDate = new Date().toISOString();
-		await this.saveSettings();
-
-		if (this.settingTab && this.settingTab.active) {
-			this.settingTab.display();
+	private async readLocalFile(
+		file: LocalFile,
+		transforms: ContentTransform[],
+		context: TransformContext,
+	): Promise<void> {
+		const vaultFile = this.app.vault.getAbstractFileByPath(file.vaultPath);
+		if (!(vaultFile instanceof TFile)) return;
+
+		// Take the stats before reading, so that a concurrent change is read on the next publish
+		file.stat = { ...vaultFile.stat };
+		const binary = await this.app.vault.readBinary(vaultFile);
+		file.isText = isTextBuffer(binary);
+		if (file.isText) {
+			file.content = applyTransforms(
+				new TextDecoder("utf-8").decode(binary),
+				file,
+				transforms,
+				context,
+			);
+			file.sha = await this.gitBlobSha1(file.content);
+		} else {
+			file.binary = binary;
+			file.sha = await this.gitBlobSha1(binary);
 		}
 	}
 
 	/**
-	 * Synchronizes selected local files and folders to a GitHub repository.
-	 *
-	 * This method performs the following steps:
-	 * 1. Validates GitHub settings and selected paths.
-	 * 2. Gathers local files and their contents from the vault.
-	 * 3. Fetches the latest commit and tree from the target GitHub repository branch.
-	 * 4. Maps remote files in the target folder and prepares a new tree with additions, updates, and deletions.
-	 * 5. If there are changes, creates a new tree and commit, and updates the branch reference.
-	 * 6. Updates the last sync date and notifies the user.
+	 * Computes a fingerprint of everything besides the content of a file that affects its
+	 * published content: the transformation settings of the profile and, when links are
+	 * converted, the repository path of every gathered file (links are rewritten to them).
+	 * Blob SHAs cached with another fingerprint are not reused.
 	 *
-	 * @async
-	 * @throws Will display a notice and log an error if synchronization fails.
-	 * @returns {Promise<void>} Resolves when synchronization is complete or if no changes are detected.
+	 * @param profile - The published profile.
+	 * @param localFiles - The gathered files.
+	 * @returns {Promise<string>} The fingerprint.
 	 */
-	async publishToGitHub(): Promise<void> {
-		try {
-			// Check that all settings are complete
-			if (
-				!this.settings.githubToken ||
-				!this.settings.repoUrl ||
-				!this.settings.repoBranch
-			) {
-				new Notice("GitHub publisher: invalid settings");
-				return;
-			}
+	private async contentFingerprint(
+		profile: PublishProfile,
+		localFiles: LocalFile[],
+	): Promise<string> {
+		return this.gitBlobSha1(
+			JSON.stringify({
+				frontmatterRules: profile.frontmatterRules,
+				convertWikilinks: profile.convertWikilinks,
+				unpublishedLinks: profile.unpublishedLinks,
+				repoPaths: profile.convertWikilinks
+					? localFiles.map((f) => [f.vaultPath, f.repoPath]).sort()
+					: [],
+			}),
+		);
+	}
 
-			// Retrieve owner and repo from the URL, branch, and folder settings
-			const { owner, repo } = parseRepoUrl(this.settings.repoUrl);
-			const branch = this.settings.repoBranch;
-			const repoFolder = this.settings.repoFolder.replace(/^\/|\/$/g, "");
-			const pathsToSync = this.settings.selectedPaths;
-			const localFiles: LocalFile[] = [];
+	/**
+	 * Notifies the user of the warnings raised during a publish, and logs their details.
+	 *
+	 * @param profile - The published profile.
+	 * @param warnings - The warnings to report.
+	 */
+	private reportWarnings(profile: PublishProfile, warnings: string[]): void {
+		if (warnings.length === 0) return;
+		console.warn(
+			`GitHub Publisher: publish warnings for profile ${profile.name}`,
+			warnings,
+		);
+		new Notice(
+			`GitHub Publisher (${profile.name}): published with ${warnings.length} warning(s), see the console for details`,
+		);
+	}
 
-			// Gather local files (vaultPath: path in vault, repoPath: path in repo)
-			for (const path of pathsToSync) {
-				await this.gatherFilesRecursively(
-					this.app,
-					path,
-					repoFolder,
-					localFiles,
-				);
+	/**
+	 * Computes the path of a file in the repository: the target folder of the profile followed
+	 * by the path of the file in the vault mapped with the path rules of the profile, unless the
+	 * note overrides it with a `permalink` (path relative to the target folder) or a `slug`
+	 * (file name) in its frontmatter.
+	 *
+	 * @param profile - The published profile.
+	 * @param file - The vault file.
+	 * @param controls - The publishing controls declared in the frontmatter of the file.
+	 * @returns The path in the repository.
+	 */
+	computeRepoPath(
+		profile: PublishProfile,
+		file: TFile,
+		controls: PublishControls,
+	): string {
+		const repoFolder = profile.repoFolder.replace(/^\/|\/$/g, "");
+		const extension = file.extension ? `.${file.extension}` : "";
+
+		let path: string;
+		if (controls.permalink) {
+			path = controls.permalink.replace(/^\/+|\/+$/g, "");
+			// Without extension, the permalink gets the vault extension mapped with the extension rules
+			if (!/\.[^/]+$/.test(path)) {
+				const slash = path.lastIndexOf("/");
+				path =
+					path.slice(0, slash + 1) +
+					mapFileName(path.slice(slash + 1) + extension, {
+						...profile.pathRules,
+						slugify: false,
+					});
 			}
+		} else if (controls.slug) {
+			const folder =
+				file.parent && !file.parent.isRoot() ? file.parent.path : "";
+			path = mapVaultPath(
+				(folder ? `${folder}/` : "") + controls.slug + extension,
+				profile.pathRules,
+			);
+		} else {
+			path = mapVaultPath(file.path, profile.pathRules);
+		}
 
-			// Gather files matching publish tags
-			if (this.settings.publishTags.length > 0) {
-				await this.gatherFilesByTags(
-					this.app,
-					this.settings.publishTags,
-					repoFolder,
-					localFiles,
-				);
-			}
+		return normalizePath(repoFolder ? `${repoFolder}/${path}` : path);
+	}
 
-			// Get latest commit and tree
-			const ref = await this.octokit.rest.git.getRef({
-				owner,
-				repo,
-				ref: `heads/${branch}`,
-			});
-			const latestCommitSha = ref.data.object.sha;
-			const latestCommit = await this.octokit.rest.git.getCommit({
-				owner,
-				repo,
-				commit_sha: latestCommitSha,
-			});
-			const baseTreeSha = latestCommit.data.tree.sha;
-			const baseTree = await this.octokit.rest.git.getTree({
-				owner,
-				repo,
-				tree_sha: baseTreeSha,
-				recursive: "true",
-			});
+	/**
+	 * Returns the folders of the repository managed by a profile: its target folder, and its
+	 * attachments folder if attachments are moved there. An empty target folder is the root of
+	 * the repository, which contains the attachments folder.
+	 *
+	 * @param profile - The profile.
+	 * @returns The repo paths of the folders.
+	 */
+	private managedFolders(profile: PublishProfile): string[] {
+		const folders = [profile.repoFolder.replace(/^\/|\/$/g, "")];
+		if (!folders[0]) return folders;
+		const attachmentsFolder = profile.attachmentsFolder.replace(
+			/^\/|\/$/g,
+			"",
+		);
+		if (
+			profile.publishAttachments &&
+			profile.convertWikilinks &&
+			attachmentsFolder
+		) {
+			folders.push(attachmentsFolder);
+		}
+		return folders;
+	}
 
-			// Map remote files in the target folder
-			const remoteFiles = new Map<string, string>(); // path -> blob Sha
-			for (const obj of baseTree.data.tree) {
-				if (
-					obj.type === "blob" &&
-					obj.path &&
-					(obj.path === repoFolder ||
-						obj.path.startsWith(repoFolder + "/"))
-				) {
-					remoteFiles.set(obj.path, obj.sha || "");
-				}
-			}
-			const localRepoPaths = new Set(localFiles.map((f) => f.repoPath));
-
-			// Prepare the new tree:
-			type TreeItem =
-				RestEndpointMethodTypes["git"]["createTree"]["parameters"]["tree"][number];
-			const tree: TreeItem[] = [];
-
-			// Add or update files (if content changed)
-			for (const file of localFiles) {
-				// Remote and local sha to check for changes
-				const remoteSha = remoteFiles.get(file.repoPath);
-				let localSha: string | undefined = undefined;
-
-				if (file.isText && file.content !== undefined) {
-					// Text file
-					localSha = await this.gitBlobSha1(file.content);
-					if (localSha !== remoteSha) {
-						const blob = await this.octokit.rest.git.createBlob({
-							owner,
-							repo,
-							content: file.content,
-							encoding: "utf-8",
-						});
-						tree.push({
-							path: file.repoPath,
-							mode: "100644",
-							type: "blob",
-							sha: blob.data.sha,
-						});
-					}
-				} else if (!file.isText && file.binary !== undefined) {
-					// Binary file
-					localSha = await this.gitBlobSha1(file.binary);
-					if (localSha !== remoteSha) {
-						const base64Content = arrayBufferToBase64(file.binary);
-						const blob = await this.octokit.rest.git.createBlob({
-							owner,
-							repo,
-							content: base64Content,
-							encoding: "base64",
-						});
-						tree.push({
-							path: file.repoPath,
-							mode: "100644",
-							type: "blob",
-							sha: blob.data.sha,
-						});
-					}
-				}
-			}
+	/**
+	 * Identifies the repository, branch and managed folders of a profile, to match its sync state.
+	 *
+	 * @param profile - The profile.
+	 * @param owner - The owner of the repository.
+	 * @param repo - The name of the repository.
+	 * @returns The sync target.
+	 */
+	private syncTarget(
+		profile: PublishProfile,
+		owner: string,
+		repo: string,
+	): string {
+		return JSON.stringify([
+			owner,
+			repo,
+			profile.repoBranch,
+			// The root is written "/", so that the states recorded while root targets matched
+			// no remote file are not reused
+			this.managedFolders(profile).map((folder) => folder || "/"),
+		]);
+	}
 
-			// Delete files in the repo folder that are not in localFiles
-			for (const remotePath of remoteFiles.keys()) {
-				if (!localRepoPaths.has(remotePath)) {
-					tree.push({
-						path: remotePath,
-						mode: "100644",
-						type: "blob",
-						sha: "", // To delete a file, set sha to an empty string
-					});
-				}
-			}
+	/**
+	 * Gathers the files of the selection of a profile: the selected notes and folders, the notes
+	 * with the publish tags or declaring `publish: true`, and the attachments of these notes.
+	 * Their content is not read.
+	 *
+	 * @param profile - The published profile.
+	 * @returns The gathered files (vaultPath: path in vault, repoPath: path in repo).
+	 */
+	gatherLocalFiles(profile: PublishProfile): LocalFile[] {
+		const localFiles = new Map<string, LocalFile>(); // Vault path -> gathered file
 
-			// If nothing to change, stop here
-			if (tree.length === 0) {
-				await this.updateLastSyncDate();
-				return;
-			}
+		// Gather local files of the selected notes and folders
+		for (const path of profile.selectedPaths) {
+			this.gatherFilesRecursively(this.app, path, profile, localFiles);
+		}
 
-			// Create the new tree and commit
-			const newTree = await this.octokit.rest.git.createTree({
-				owner,
-				repo,
-				base_tree: baseTreeSha,
-				tree,
-			});
+		// Gather files matching publish tags
+		if (profile.publishTags.length > 0) {
+			this.gatherFilesByTags(
+				this.app,
+				profile.publishTags,
+				profile,
+				localFiles,
+			);
+		}
 
-			const commit = await this.octokit.rest.git.createCommit({
-				owner,
-				repo,
-				message: "Publish Obsidian → GitHub",
-				tree: newTree.data.sha,
-				parents: [latestCommitSha],
-				author: {
-					name: "Obsidian GitHub Publisher",
-					email: "obsidian-bot@cyprien.io",
-				},
-				committer: {
-					name: "Obsidian GitHub Publisher",
-					email: "obsidian-bot@cyprien.io",
-				},
-			});
-			await this.octokit.rest.git.updateRef({
-				owner,
-				repo,
-				ref: `heads/${branch}`,
-				sha: commit.data.sha,
-			});
+		// Gather notes declaring `publish: true` in their frontmatter
+		this.gatherFilesByFrontmatter(this.app, profile, localFiles);
 
-			await this.updateLastSyncDate();
-		} catch (e) {
-			console.error("GitHub Publisher: error during publish", e);
-			const errorMessage = e instanceof Error ? e.message : String(e);
-			new Notice(
-				"GitHub Publisher: error during publish : " + errorMessage,
+		// Gather attachments referenced by the gathered notes
+		if (profile.publishAttachments) {
+			this.gatherAttachments(
+				this.app,
+				profile.attachmentsFolder.replace(/^\/|\/$/g, ""),
+				profile,
+				localFiles,
 			);
 		}
+		return [...localFiles.values()];
 	}
 
 	/**
-	 * Reads a file from the vault and appends it to the local files array.
-	 * Detects whether the file is text or binary and stores the appropriate content.
+	 * Adds a file from the vault to the gathered files, unless already gathered or excluded
+	 * by the profile. Its content is read later, only if it changed since it was last read.
+	 * Notes declaring `publish: false` (or other profile names) in their frontmatter, and drafts
+	 * (unless the profile publishes drafts), are skipped.
 	 *
 	 * @param app - The Obsidian App instance.
-	 * @param file - The vault file to read.
-	 * @param repoFolder - The repository folder path to prepend to the file's path.
-	 * @param localFiles - The array to append the file metadata and contents to.
+	 * @param file - The vault file to gather.
+	 * @param profile - The published profile.
+	 * @param localFiles - The gathered files by vault path, the file metadata is added to.
+	 * @param repoPath - The path in the repository, overrides the one computed from the profile.
+	 * @returns The gathered file, or undefined if it was skipped or already gathered.
 	 */
-	private async readAndPushFile(
+	private pushFile(
 		app: App,
 		file: TFile,
-		repoFolder: string,
-		localFiles: LocalFile[],
-	): Promise<void> {
-		const binary = await app.vault.readBinary(file);
-		const isText = isTextBuffer(binary);
-		localFiles.push({
+		profile: PublishProfile,
+		localFiles: Map<string, LocalFile>,
+		repoPath?: string,
+	): LocalFile | undefined {
+		if (localFiles.has(file.path)) return undefined;
+		if (this.isExcluded(app, profile, file)) return undefined;
+
+		const controls = getPublishControls(app, file);
+		if (isPublishRequested(controls, profile.name) === false) {
+			return undefined;
+		}
+		if (controls.draft && !profile.publishDrafts) return undefined;
+
+		const localFile: LocalFile = {
 			vaultPath: file.path,
-			repoPath: repoFolder ? `${repoFolder}/${file.path}` : file.path,
-			content: isText
-				? new TextDecoder("utf-8").decode(binary)
-				: undefined,
-			binary: !isText ? binary : undefined,
-			isText,
-		});
+			repoPath: repoPath ?? this.computeRepoPath(profile, file, controls),
+			stat: { ...file.stat },
+		};
+		localFiles.set(file.path, localFile);
+		return localFile;
 	}
 
 	/**
-	 * Recursively gathers files from the vault, reading their contents as text or binary.
-	 * This modify the `localFiles` array with metadata and contents of each file.
+	 * Recursively gathers files from the vault.
+	 * This modify the `localFiles` map with metadata of each file.
 	 *
 	 * @param app - The Obsidian App instance.
 	 * @param basePath - The base path in the vault to start gathering files from.
-	 * @param repoFolder - The repository folder path to prepend to each file's path.
-	 * @param localFiles - The array to collect file metadata and contents.
-	 * @returns {Promise<void>} Resolves when all files have been gathered.
+	 * @param profile - The published profile.
+	 * @param localFiles - The gathered files by vault path, to collect file metadata.
 	 */
-	async gatherFilesRecursively(
+	gatherFilesRecursively(
 		app: App,
 		basePath: string,
-		repoFolder: string,
-		localFiles: LocalFile[],
-	): Promise<void> {
+		profile: PublishProfile,
+		localFiles: Map<string, LocalFile>,
+	): void {
 		const fileOrFolder = app.vault.getAbstractFileByPath(
 			normalizePath(basePath),
 		);
 		if (!fileOrFolder) return;
+		if (matchesAnyPattern(fileOrFolder.path, profile.excludePatterns)) {
+			return;
+		}
 		if (fileOrFolder instanceof TFile) {
-			await this.readAndPushFile(
-				app,
-				fileOrFolder,
-				repoFolder,
-				localFiles,
-			);
+			this.pushFile(app, fileOrFolder, profile, localFiles);
 		} else if (fileOrFolder instanceof TFolder) {
 			for (const child of fileOrFolder.children) {
-				await this.gatherFilesRecursively(
+				this.gatherFilesRecursively(
 					app,
 					child.path,
-					repoFolder,
+					profile,
 					localFiles,
 				);
 			}
@@ -434,49 +2514,162 @@ export default class GitHubPublisherPlugin extends Plugin {
 	 * Uses Obsidian's MetadataCache to check both frontmatter and inline tags.
 	 * Skips files already present in localFiles to avoid duplicates.
 	 */
-	async gatherFilesByTags(
+	gatherFilesByTags(
 		app: App,
 		tags: string[],
-		repoFolder: string,
-		localFiles: LocalFile[],
-	): Promise<void> {
-		const alreadyGathered = new Set(localFiles.map((f) => f.vaultPath));
+		profile: PublishProfile,
+		localFiles: Map<string, LocalFile>,
+	): void {
 		const tagSet = new Set(tags.map((t) => t.toLowerCase()));
 
 		for (const file of app.vault.getMarkdownFiles()) {
-			if (alreadyGathered.has(file.path)) continue;
-
-			const cache = app.metadataCache.getFileCache(file);
-			if (!cache) continue;
+			if (localFiles.has(file.path)) continue;
+			if (!this.hasAnyTag(app, file, tagSet)) continue;
 
-			let matched = false;
+			this.pushFile(app, file, profile, localFiles);
+		}
+	}
 
-			// Check inline tags (cache.tags[].tag includes # prefix)
-			if (cache.tags) {
-				for (const t of cache.tags) {
-					if (tagSet.has(t.tag.toLowerCase())) {
-						matched = true;
-						break;
-					}
-				}
+	/**
+	 * Checks whether a file contains any of the given tags.
+	 * Uses Obsidian's MetadataCache to check both frontmatter and inline tags.
+	 *
+	 * @param app - The Obsidian App instance.
+	 * @param file - The file to check.
+	 * @param tagSet - The lowercase tags, with # prefix.
+	 * @returns True if the file contains at least one of the tags.
+	 */
+	private hasAnyTag(app: App, file: TFile, tagSet: Set<string>): boolean {
+		const cache = app.metadataCache.getFileCache(file);
+		if (!cache) return false;
+
+		// Check inline tags (cache.tags[].tag includes # prefix)
+		if (cache.tags) {
+			for (const t of cache.tags) {
+				if (tagSet.has(t.tag.toLowerCase())) return true;
 			}
+		}
 
-			// Check frontmatter tags (string[] without # prefix)
-			if (!matched && cache.frontmatter?.tags) {
-				const fmTags: string[] = Array.isArray(cache.frontmatter.tags)
-					? (cache.frontmatter.tags as string[])
-					: [cache.frontmatter.tags as string];
-				for (const t of fmTags) {
-					if (tagSet.has("#" + String(t).toLowerCase())) {
-						matched = true;
-						break;
-					}
-				}
+		// Check frontmatter tags (string[] without # prefix)
+		if (cache.frontmatter?.tags) {
+			const fmTags: string[] = Array.isArray(cache.frontmatter.tags)
+				? (cache.frontmatter.tags as string[])
+				: [cache.frontmatter.tags as string];
+			for (const t of fmTags) {
+				if (tagSet.has("#" + String(t).toLowerCase())) return true;
 			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Checks whether a file is excluded by the profile: its path matches an exclusion pattern,
+	 * it contains an exclusion tag, or it was unpublished.
+	 *
+	 * @param app - The Obsidian App instance.
+	 * @param profile - The published profile.
+	 * @param file - The file to check.
+	 * @returns True if the file must not be published.
+	 */
+	private isExcluded(
+		app: App,
+		profile: PublishProfile,
+		file: TFile,
+	): boolean {
+		if (matchesAnyPattern(file.path, profile.excludePatterns)) return true;
+		if (this.isUnpublished(profile, file.path)) return true;
+		if (profile.excludeTags.length === 0) return false;
+		return this.hasAnyTag(
+			app,
+			file,
+			new Set(profile.excludeTags.map((t) => t.toLowerCase())),
+		);
+	}
+
+	/**
+	 * Gathers the notes from the vault declaring `publish: true` (or the name of the profile)
+	 * in their frontmatter.
+	 * Skips files already present in localFiles to avoid duplicates.
+	 *
+	 * @param app - The Obsidian App instance.
+	 * @param profile - The published profile.
+	 * @param localFiles - The gathered files by vault path, to collect file metadata.
+	 */
+	gatherFilesByFrontmatter(
+		app: App,
+		profile: PublishProfile,
+		localFiles: Map<string, LocalFile>,
+	): void {
+		for (const file of app.vault.getMarkdownFiles()) {
+			if (localFiles.has(file.path)) continue;
+			const controls = getPublishControls(app, file);
+			if (isPublishRequested(controls, profile.name) !== true) continue;
+			this.pushFile(app, file, profile, localFiles);
+		}
+	}
 
-			if (!matched) continue;
+	/**
+	 * Gathers the attachments (images, PDFs, audio...) referenced by the notes already gathered.
+	 * Skips files already present in localFiles to avoid duplicates.
+	 *
+	 * When links are converted, and so rewritten to the published attachments, attachments are
+	 * moved to the given repository folder, keeping their vault folders so that same-named
+	 * attachments do not collide, or next to the first note referencing them if no folder is
+	 * given, renamed if another file has the same name there. Otherwise they are published at
+	 * the path of their vault file, where the links of the notes point to.
+	 *
+	 * @param app - The Obsidian App instance.
+	 * @param attachmentsFolder - The repository folder where attachments are placed (empty to place them next to the notes).
+	 * @param profile - The published profile.
+	 * @param localFiles - The gathered files by vault path, to collect file metadata.
+	 */
+	gatherAttachments(
+		app: App,
+		attachmentsFolder: string,
+		profile: PublishProfile,
+		localFiles: Map<string, LocalFile>,
+	): void {
+		const takenPaths = new Set(
+			[...localFiles.values()].map((f) => f.repoPath),
+		);
+		const notes = [...localFiles.values()].filter((f) =>
+			f.vaultPath.toLowerCase().endsWith(".md"),
+		);
 
-			await this.readAndPushFile(app, file, repoFolder, localFiles);
+		for (const note of notes) {
+			const file = app.vault.getAbstractFileByPath(note.vaultPath);
+			if (!(file instanceof TFile)) continue;
+
+			for (const attachment of findAttachments(app, file)) {
+				if (localFiles.has(attachment.path)) continue;
+
+				let repoPath: string | undefined;
+				if (profile.convertWikilinks && attachmentsFolder) {
+					repoPath = `${attachmentsFolder}/${mapVaultPath(attachment.path, profile.pathRules)}`;
+				} else if (profile.convertWikilinks) {
+					const folder = note.repoPath
+						.split("/")
+						.slice(0, -1)
+						.join("/");
+					const name = mapFileName(
+						attachment.name,
+						profile.pathRules,
+					);
+					repoPath = uniqueRepoPath(
+						folder ? `${folder}/${name}` : name,
+						takenPaths,
+					);
+				}
+				const gathered = this.pushFile(
+					app,
+					attachment,
+					profile,
+					localFiles,
+					repoPath,
+				);
+				if (gathered) takenPaths.add(gathered.repoPath);
+			}
 		}
 	}
 
@@ -517,31 +2710,30 @@ export default class GitHubPublisherPlugin extends Plugin {
 	/**
 	 * Handles changes to the settings.
 	 *
-	 * Sets up Octokit with the GitHub token from the settings and configures the sync interval.
+	 * Configures the sync interval and the publish command of each profile, and refreshes the publish states.
 	 * This method should be called whenever the settings are updated to ensure the latest configuration is used.
 	 */
 	onSettingsChange() {
-		// Set up Octokit with the GitHub token
-		this.octokit = new Octokit({ auth: this.settings.githubToken });
+		// Set up the sync intervals based on the configured profiles
+		this.setupSyncIntervals();
+
+		// Register the publish command of each profile
+		this.registerProfileCommands();
 
-		// Set up the sync interval based on the configured settings
-		this.setupSyncInterval();
+		// The publish selections may have changed
+		this.scheduleStatusRefresh();
 	}
 
 	/**
 	 * Loads the plugin settings from storage or uses default values.
-	 * Initializes the Octokit instance with the GitHub token from settings.
-	 * Sets up the synchronization interval based on the loaded settings.
+	 * Settings saved by previous versions are migrated to publish profiles.
+	 * Sets up the synchronization intervals based on the loaded settings.
 	 *
 	 * @returns {Promise<void>} A promise that resolves when settings are loaded and setup is complete.
 	 */
 	async loadSettings(): Promise<void> {
 		// Load settings from storage or use default values
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			(await this.loadData()) as Partial<GitHubPublisherSettings>,
-		);
+		this.settings = migrateSettings(await this.loadData());
 
 		// Trigger the settings change handler
 		this.onSettingsChange();
@@ -560,173 +2752,46 @@ export default class GitHubPublisherPlugin extends Plugin {
 		// Trigger the settings change handler
 		this.onSettingsChange();
 	}
-}
-
-// Settings tab class for the GitHub Publisher plugin
-class GitHubPublisherSettingTab extends PluginSettingTab {
-	plugin: GitHubPublisherPlugin; // Plugin instance
-	active = false; // Whether the settings tab is currently active
 
 	/**
-	 * Creates an instance of the class.
-	 * @param app - The application instance.
-	 * @param plugin - The GitHubPublisherPlugin instance.
+	 * Returns the path of a data file of the plugin (besides its settings), in its folder.
+	 *
+	 * @param name - The name of the file.
+	 * @returns The path, relative to the vault.
 	 */
-	constructor(app: App, plugin: GitHubPublisherPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
+	private dataFilePath(name: string): string {
+		return normalizePath(
+			`${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/${name}`,
+		);
 	}
 
 	/**
-	 * Displays the settings UI for the plugin.
-	 *
-	 * This method populates the container element with various settings fields:
-	 * - GitHub Token (password input)
-	 * - Repository URL
-	 * - Target folder in the repository
-	 * - Multi-select for notes/folders to export
-	 * - Sync interval (in minutes)
-	 * - Button to trigger immediate synchronization
+	 * Returns the date of the last successful publish, across all profiles.
 	 *
-	 * If a last sync date exists, it displays the last synchronization time.
-	 *
-	 * @returns {void}
+	 * @returns The date, or null if no profile was ever published.
 	 */
-	display(): void {
-		this.active = true;
-		const { containerEl } = this;
-		containerEl.empty();
-
-		// GitHub token input
-		new Setting(containerEl)
-			.setName("GitHub token")
-			.setDesc("Personal token with write access to the repo.")
-			.addText((text) => {
-				text.inputEl.type = "password";
-				text.setValue(this.plugin.settings.githubToken).onChange(
-					async (value) => {
-						this.plugin.settings.githubToken = value;
-						await this.plugin.saveSettings();
-					},
-				);
-			});
-
-		// GitHub repository URL input
-		new Setting(containerEl)
-			.setName("Repository URL")
-			.setDesc("Ex: https://github.com/yourusername/yourrepo")
-			.addText((text) =>
-				text
-					.setValue(this.plugin.settings.repoUrl)
-					.onChange(async (value) => {
-						this.plugin.settings.repoUrl = value;
-						await this.plugin.saveSettings();
-					}),
-			);
-
-		// GitHub branch input
-		new Setting(containerEl)
-			.setName("Branch name")
-			.setDesc("Ex: main")
-			.addText((text) =>
-				text
-					.setValue(this.plugin.settings.repoBranch)
-					.onChange(async (value) => {
-						this.plugin.settings.repoBranch = value;
-						await this.plugin.saveSettings();
-					}),
-			);
-
-		// Target folder in the repository input
-		new Setting(containerEl)
-			.setName("Target folder in the repo")
-			.setDesc(
-				"Relative path in the repo where to place the notes (empty for root folder).",
-			)
-			.addText((text) =>
-				text
-					.setValue(this.plugin.settings.repoFolder)
-					.onChange(async (value) => {
-						this.plugin.settings.repoFolder = value;
-						await this.plugin.saveSettings();
-					}),
-			);
-
-		// Publish tags
-		new Setting(containerEl)
-			.setName("Publish files with given tags")
-			.setDesc(
-				"Publish all files containing any of these tags (press enter to add tag).",
-			)
-			.then((setting) => {
-				addMultiTagInput(
-					setting.controlEl,
-					this.plugin.settings.publishTags,
-					(selected) => {
-						this.plugin.settings.publishTags = selected;
-						void this.plugin.saveSettings();
-					},
-				);
-				return setting;
-			});
-
-		// Files/folders to publish from the vault
-		new Setting(containerEl)
-			.setName("Notes/folders to export")
-			.setDesc(
-				"Start typing and select from the suggestions. You can add multiple items.",
-			)
-			.then((setting) => {
-				addMultiPathInput(
-					setting.controlEl,
-					this.app,
-					this.plugin.settings.selectedPaths,
-					(selected) => {
-						this.plugin.settings.selectedPaths = selected;
-						void this.plugin.saveSettings();
-					},
-				);
-				return setting;
-			});
-
-		// Sync interval input
-		new Setting(containerEl)
-			.setName("Push interval (min)")
-			.setDesc("Push every X minutes (0 to disable periodic push)")
-			.addText((text) =>
-				text
-					.setValue(String(this.plugin.settings.syncInterval))
-					.onChange(async (value) => {
-						this.plugin.settings.syncInterval = Number(value);
-						await this.plugin.saveSettings();
-					}),
-			);
-
-		// Force sync button
-		new Setting(containerEl).addButton((btn) =>
-			btn
-				.setButtonText("Synchronize now")
-				.setCta()
-				.onClick(async () => {
-					await this.plugin.publishToGitHub();
-				}),
-		);
-
-		// Last sync date info
-		if (this.plugin.settings.lastSyncDate) {
-			const info = containerEl.createDiv({
-				cls: "github-publisher-last-sync",
-			});
-			info.textContent =
-				"Last synchronization: " +
-				new Date(this.plugin.settings.lastSyncDate).toLocaleString();
-		}
+	private lastPublishDate(): Date | null {
+		const dates = this.settings.profiles
+			.map((p) => p.lastSyncDate)
+			.filter((d): d is string => !!d)
+			.map((d) => new Date(d).getTime());
+		return dates.length > 0 ? new Date(Math.max(...dates)) : null;
 	}
 
 	/**
-	 * Hides the current object by setting its active state to false.
+	 * Saves the sync state, dropping the state of removed profiles.
+	 *
+	 * @returns {Promise<void>} A promise that resolves when the sync state has been saved.
 	 */
-	hide(): void {
-		this.active = false;
+	private async saveSyncState(): Promise<void> {
+		const profileIds = new Set(this.settings.profiles.map((p) => p.id));
+		for (const id of Object.keys(this.syncState.profiles)) {
+			if (!profileIds.has(id)) delete this.syncState.profiles[id];
+		}
+		await saveSyncState(
+			this.app,
+			this.dataFilePath("sync-state.json"),
+			this.syncState,
+		);
 	}
 }
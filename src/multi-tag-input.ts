@@ -2,15 +2,22 @@
  * Adds a multi-tag input component to the specified container,
  * allowing users to add/remove multiple tags for publish filtering.
  *
+ * The same chip-style input can hold other values (e.g. glob patterns) by changing
+ * the placeholder and the prefix enforced on each value.
+ *
  * @param container - The HTML element to which the input will be appended.
  * @param selected - The array of currently selected tags (with # prefix).
  * @param onChange - Callback called whenever the selection changes.
+ * @param options - The placeholder of the input (default "#note") and the prefix added to values (default "#").
  */
 export function addMultiTagInput(
 	container: HTMLElement,
 	selected: string[],
 	onChange: (selected: string[]) => void,
+	options: { placeholder?: string; prefix?: string } = {},
 ) {
+	const { placeholder = "#note", prefix = "#" } = options;
+
 	const wrapper = container.createDiv({
 		cls: "github-publisher-multi-file-suggest-wrapper",
 	});
@@ -19,7 +26,7 @@ export function addMultiTagInput(
 		type: "text",
 		cls: "github-publisher-multi-file-suggest-input",
 	});
-	input.placeholder = "#note";
+	input.placeholder = placeholder;
 
 	const selectedDiv = wrapper.createDiv({
 		cls: "github-publisher-multi-file-suggest-selected",
@@ -52,8 +59,8 @@ export function addMultiTagInput(
 	function addTag() {
 		let val = input.value.trim();
 		if (!val) return;
-		// Ensure # prefix
-		if (!val.startsWith("#")) val = "#" + val;
+		// Ensure prefix
+		if (!val.startsWith(prefix)) val = prefix + val;
 		if (!selected.includes(val)) {
 			selected.push(val);
 			onChange([...selected]);
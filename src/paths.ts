@@ -0,0 +1,133 @@
+// Interface for a mapping between a vault folder and a repo folder
+export interface PathMapping {
+	from: string; // Vault folder prefix (e.g. "Blog/Posts")
+	to: string; // Repo folder prefix, relative to the target folder (e.g. "content/posts")
+}
+
+// Interface for an extension change
+export interface ExtensionMapping {
+	from: string; // Extension in the vault, without dot (e.g. "md")
+	to: string; // Extension in the repo, without dot (e.g. "mdx")
+}
+
+// Interface for the rules mapping vault paths to repo paths
+export interface PathRules {
+	mappings: PathMapping[]; // Folder prefixes remapped (first matching mapping wins)
+	slugify: boolean; // Slugify folder and file names coming from the vault
+	flatten: boolean; // Drop the folders coming from the vault, keeping only file names
+	extensions: ExtensionMapping[]; // Extensions changed
+}
+
+// Characters that are not decomposed by NFKD normalization
+const TRANSLITERATIONS: Record<string, string> = {
+	ß: "ss",
+	æ: "ae",
+	œ: "oe",
+	ø: "o",
+	đ: "d",
+	ð: "d",
+	þ: "th",
+	ł: "l",
+	ı: "i",
+};
+
+/**
+ * Slugifies a name: ASCII transliteration, lowercase, and hyphens instead of spaces and
+ * punctuation (e.g. "Café Crème & Co" becomes "cafe-creme-co").
+ *
+ * @param name - The name to slugify.
+ * @returns The slug, or the original name if nothing is left of it.
+ */
+export function slugify(name: string): string {
+	const slug = name
+		.toLowerCase()
+		.replace(/[ßæœøđðþłı]/g, (c) => TRANSLITERATIONS[c] ?? c)
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/[^a-z0-9_]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return slug || name;
+}
+
+/**
+ * Applies the name rules (slugification and extension change) to a file name.
+ *
+ * @param name - The file name, with its extension.
+ * @param rules - The path rules.
+ * @returns The file name in the repo.
+ */
+export function mapFileName(name: string, rules: PathRules): string {
+	const dot = name.lastIndexOf(".");
+	let basename = dot > 0 ? name.slice(0, dot) : name;
+	let extension = dot > 0 ? name.slice(dot + 1) : "";
+
+	const mapping = rules.extensions.find(
+		(m) => m.from.toLowerCase() === extension.toLowerCase(),
+	);
+	if (mapping) extension = mapping.to;
+	if (rules.slugify) basename = slugify(basename);
+
+	return extension ? `${basename}.${extension}` : basename;
+}
+
+/**
+ * Maps the path of a file in the vault to its path in the repo, relative to the target folder.
+ *
+ * The first folder mapping matching the path replaces its prefix. The rest of the path,
+ * coming from the vault, is then flattened and slugified if requested, and the extension
+ * of the file is changed.
+ *
+ * @param vaultPath - The path of the file in the vault.
+ * @param rules - The path rules.
+ * @returns The path in the repo, relative to the target folder.
+ */
+export function mapVaultPath(vaultPath: string, rules: PathRules): string {
+	let prefix = "";
+	let rest = vaultPath;
+	for (const mapping of rules.mappings) {
+		const from = mapping.from.replace(/^\/+|\/+$/g, "");
+		if (from && (rest === from || rest.startsWith(from + "/"))) {
+			prefix = mapping.to.replace(/^\/+|\/+$/g, "");
+			rest = rest.slice(from.length + 1);
+			break;
+		}
+	}
+
+	const parts = rest.split("/");
+	const name = mapFileName(parts.pop() ?? "", rules);
+	const folders = rules.flatten
+		? []
+		: parts.map((part) => (rules.slugify ? slugify(part) : part));
+
+	return [prefix, ...folders, name].filter((part) => part).join("/");
+}
+
+/**
+ * Checks that no two vault files are mapped to the same repo path.
+ *
+ * @param files - The gathered files.
+ * @throws An error listing the colliding files if any.
+ */
+export function checkPathCollisions(
+	files: { vaultPath: string; repoPath: string }[],
+): void {
+	const byRepoPath = new Map<string, string[]>();
+	for (const file of files) {
+		const vaultPaths = byRepoPath.get(file.repoPath) ?? [];
+		if (!vaultPaths.includes(file.vaultPath))
+			vaultPaths.push(file.vaultPath);
+		byRepoPath.set(file.repoPath, vaultPaths);
+	}
+
+	const collisions = [...byRepoPath]
+		.filter(([, vaultPaths]) => vaultPaths.length > 1)
+		.map(
+			([repoPath, vaultPaths]) =>
+				`${vaultPaths.map((p) => `"${p}"`).join(", ")} → "${repoPath}"`,
+		);
+	if (collisions.length > 0) {
+		throw new Error(
+			`several files are published to the same path: ${collisions.join("; ")}`,
+		);
+	}
+}
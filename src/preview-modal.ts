@@ -0,0 +1,109 @@
+import { App, Modal, Setting } from "obsidian";
+import { PublishChange, PublishPlan } from "./publish-plan";
+
+// Labels of the sections of the preview, by kind of change
+const SECTIONS: { action: PublishChange["action"]; label: string }[] = [
+	{ action: "added", label: "Added" },
+	{ action: "modified", label: "Modified" },
+	{ action: "deleted", label: "Deleted" },
+];
+
+/**
+ * Formats a size in bytes in a human readable way.
+ *
+ * @param size - The size in bytes.
+ * @returns The formatted size (e.g. "12.3 KB").
+ */
+function formatSize(size: number): string {
+	if (size < 1024) return `${size} B`;
+	if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+	return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Modal listing the changes of a publish plan, letting the user confirm, cancel or exclude entries
+export class PublishPreviewModal extends Modal {
+	plan: PublishPlan; // Plan to preview
+	onConfirm: (changes: PublishChange[] | null) => void; // Called with the changes to apply, or null if cancelled
+	excluded = new Set<PublishChange>(); // Changes excluded by the user
+	confirmed: PublishChange[] | null = null; // Changes confirmed by the user
+
+	/**
+	 * Creates an instance of the modal.
+	 * @param app - The application instance.
+	 * @param plan - The publish plan to preview.
+	 * @param onConfirm - Callback called with the changes to apply when the user confirms, or null if they cancel.
+	 */
+	constructor(
+		app: App,
+		plan: PublishPlan,
+		onConfirm: (changes: PublishChange[] | null) => void,
+	) {
+		super(app);
+		this.plan = plan;
+		this.onConfirm = onConfirm;
+	}
+
+	/**
+	 * Renders the list of changes, grouped by kind, with a toggle to exclude each entry,
+	 * followed by the confirm and cancel buttons.
+	 */
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText(`Preview publish: ${this.plan.profile.name}`);
+
+		const { changes } = this.plan;
+		const summary = SECTIONS.map(
+			({ action, label }) =>
+				`${changes.filter((c) => c.action === action).length} ${label.toLowerCase()}`,
+		).join(", ");
+		contentEl.createEl("p", {
+			text: `${this.plan.owner}/${this.plan.repo} (${this.plan.branch}): ${summary}.`,
+		});
+
+		const list = contentEl.createDiv({
+			cls: "github-publisher-preview-list",
+		});
+		for (const { action, label } of SECTIONS) {
+			const sectionChanges = changes.filter((c) => c.action === action);
+			if (sectionChanges.length === 0) continue;
+
+			new Setting(list).setName(label).setHeading();
+			for (const change of sectionChanges) {
+				new Setting(list)
+					.setName(change.repoPath)
+					.setDesc(formatSize(change.size))
+					.addToggle((toggle) =>
+						toggle.setValue(true).onChange((value) => {
+							if (value) this.excluded.delete(change);
+							else this.excluded.add(change);
+						}),
+					);
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Publish")
+					.setCta()
+					.onClick(() => {
+						this.confirmed = changes.filter(
+							(c) => !this.excluded.has(c),
+						);
+						this.close();
+					}),
+			);
+	}
+
+	/**
+	 * Empties the modal when it is closed, and calls the callback.
+	 */
+	onClose(): void {
+		this.contentEl.empty();
+		this.onConfirm(this.confirmed);
+	}
+}
@@ -0,0 +1,37 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { PublishProfile } from "./settings";
+
+// Modal letting the user pick the profile a command applies to
+export class ProfileSuggestModal extends FuzzySuggestModal<PublishProfile> {
+	profiles: PublishProfile[]; // Profiles to choose from
+	onChoose: (profile: PublishProfile) => void; // Called with the chosen profile
+
+	/**
+	 * Creates an instance of the modal.
+	 * @param app - The application instance.
+	 * @param profiles - The profiles to choose from.
+	 * @param onChoose - Callback called with the chosen profile.
+	 */
+	constructor(
+		app: App,
+		profiles: PublishProfile[],
+		onChoose: (profile: PublishProfile) => void,
+	) {
+		super(app);
+		this.profiles = profiles;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a publish profile");
+	}
+
+	getItems(): PublishProfile[] {
+		return this.profiles;
+	}
+
+	getItemText(profile: PublishProfile): string {
+		return profile.name;
+	}
+
+	onChooseItem(profile: PublishProfile): void {
+		this.onChoose(profile);
+	}
+}
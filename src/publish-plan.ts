@@ -0,0 +1,77 @@
+import { Octokit } from "@octokit/rest";
+import { FileStats } from "obsidian";
+import { PublishJob } from "./publish-queue";
+import { PublishProfile } from "./settings";
+
+// Interface for local files to be published
+export interface LocalFile {
+	vaultPath: string; // Path in the Obsidian vault
+	repoPath: string; // Path in the GitHub repository
+	stat: FileStats; // Stats of the vault file when gathered
+	content?: string; // Content of the file as text (if it's a text file, once read)
+	binary?: ArrayBuffer; // Binary content of the file (if it's a binary file, once read)
+	isText?: boolean; // Whether the file is a text file or binary (once read)
+	sha?: string; // Blob SHA of the published content (once read, or known from the sync state)
+}
+
+// Interface for a file of the remote tree
+export interface RemoteFile {
+	sha: string; // Blob SHA
+	size: number; // Size in bytes
+}
+
+// Interface for a change to apply to the repository
+export interface PublishChange {
+	action: "added" | "modified" | "deleted"; // Kind of change
+	repoPath: string; // Path in the GitHub repository
+	size: number; // Size in bytes (of the local file, or of the remote file for deletions)
+	file?: LocalFile; // Local file to upload (for additions and modifications)
+}
+
+// Interface for the part of the selection published by a partial publish (a single note or folder)
+export interface PublishScope {
+	vaultPaths: Set<string>; // Vault paths of the files whose changes are published
+	deletedPaths: Set<string>; // Repo paths of the files deleted from the repository
+}
+
+// Interface for a publish plan: the changes computed against the remote branch, not applied yet
+export interface PublishPlan {
+	profile: PublishProfile; // Published profile
+	octokit: Octokit; // Octokit instance used to compute the plan
+	job: PublishJob; // Job running the publish, for its progress and cancellation
+	owner: string; // Owner of the repository
+	repo: string; // Name of the repository
+	webUrl: string; // URL of the repository in the web interface
+	branch: string; // Branch to push changes to
+	headSha: string; // SHA of the commit the branch pointed to
+	baseTreeSha: string; // SHA of the tree of that commit
+	changes: PublishChange[]; // Changes to apply
+	remoteFiles: Map<string, RemoteFile>; // Remote files in the managed folders, by repo path
+	localFiles: LocalFile[]; // Every gathered local file
+	warnings: string[]; // Warnings raised while gathering and transforming files
+	skippedPaths: string[]; // Repo paths of the changes excluded by the user in the preview
+	scope?: PublishScope; // Part of the selection published, if the publish is partial
+	commitMessage?: string; // Commit message entered by the user, overrides the template of the profile
+	syncTarget: string; // Repository, branch and managed folders, to match the sync state
+	fingerprint: string; // Fingerprint of the settings and paths affecting the published contents
+}
+
+// Interface for the outcome of an applied publish plan
+export interface PublishResult {
+	plan: PublishPlan; // Applied plan (computed again if the branch moved during the publish)
+	commitSha?: string; // SHA of the publish commit, if one was created
+	url?: string; // URL of the commit or pull request on GitHub, if one was created
+}
+
+/**
+ * Returns the size in bytes of the content of a local file.
+ *
+ * @param file - The local file.
+ * @returns The size in bytes.
+ */
+export function localFileSize(file: LocalFile): number {
+	if (file.isText && file.content !== undefined) {
+		return new TextEncoder().encode(file.content).length;
+	}
+	return file.binary?.byteLength ?? 0;
+}
@@ -0,0 +1,178 @@
+import { PublishProfile } from "./settings";
+
+// Progress of a publish job
+export interface PublishProgress {
+	phase: "preparing" | "hashing" | "uploading" | "committing"; // Current step
+	done: number; // Number of files processed in the step
+	total: number; // Number of files to process in the step
+}
+
+// A publish run of a profile, waiting in the queue or running
+export class PublishJob {
+	profile: PublishProfile; // Published profile
+	manual: boolean; // Whether one of the requests of the job came from the user
+	progress: PublishProgress = { phase: "preparing", done: 0, total: 0 }; // Current progress
+	private controller = new AbortController(); // Aborts the requests of the job on cancellation
+	private committing = false; // Whether the branch update started, which is not interrupted
+	private onProgress: (job: PublishJob) => void; // Called when the progress changes
+
+	/**
+	 * Creates a publish job.
+	 * @param profile - The published profile.
+	 * @param manual - Whether the publish was requested by the user.
+	 * @param onProgress - Called when the progress of the job changes.
+	 */
+	constructor(
+		profile: PublishProfile,
+		manual: boolean,
+		onProgress: (job: PublishJob) => void,
+	) {
+		this.profile = profile;
+		this.manual = manual;
+		this.onProgress = onProgress;
+	}
+
+	// Signal aborted when the job is cancelled
+	get signal(): AbortSignal {
+		return this.controller.signal;
+	}
+
+	/**
+	 * Reports the progress of the job.
+	 *
+	 * @param phase - The current step.
+	 * @param done - The number of files processed in the step.
+	 * @param total - The number of files to process in the step.
+	 */
+	report(phase: PublishProgress["phase"], done = 0, total = 0): void {
+		this.progress = { phase, done, total };
+		this.onProgress(this);
+	}
+
+	/**
+	 * Marks the start of the branch update. From then on the job cannot be cancelled, so
+	 * the branch and the publish branch of pull requests are never left half updated.
+	 *
+	 * @throws The abort reason if the job was cancelled before.
+	 */
+	startCommit(): void {
+		this.signal.throwIfAborted();
+		this.committing = true;
+		this.report("committing");
+	}
+
+	/**
+	 * Cancels the job, aborting its in-flight requests.
+	 *
+	 * @returns False if the branch update already started, in which case the job completes.
+	 */
+	cancel(): boolean {
+		if (this.committing) return false;
+		this.controller.abort();
+		return true;
+	}
+}
+
+// Queue running the publishes one at a time. A publish requested for a profile already
+// waiting in the queue joins the waiting job instead of running twice.
+export class PublishQueue {
+	running: PublishJob | null = null; // Job being run
+	private waiting: {
+		job: PublishJob;
+		key?: string;
+		run: (job: PublishJob) => Promise<void>;
+		resolve: () => void;
+	}[] = []; // Jobs waiting for the running one, in order
+	private onChange: (job: PublishJob | null) => void; // Called when the running job or its progress changes
+
+	/**
+	 * Creates the queue.
+	 * @param onChange - Called with the running job when it starts, progresses or finishes (null once idle).
+	 */
+	constructor(onChange: (job: PublishJob | null) => void) {
+		this.onChange = onChange;
+	}
+
+	// Number of jobs waiting for the running one
+	get waitingCount(): number {
+		return this.waiting.length;
+	}
+
+	/**
+	 * Adds a publish to the queue.
+	 *
+	 * @param profile - The published profile.
+	 * @param manual - Whether the publish was requested by the user.
+	 * @param run - Runs the publish with its job.
+	 * @param key - Requests with the same key join a job waiting in the queue (none to never join).
+	 * @returns {Promise<void>} Resolves when the publish is complete or cancelled.
+	 */
+	enqueue(
+		profile: PublishProfile,
+		manual: boolean,
+		run: (job: PublishJob) => Promise<void>,
+		key?: string,
+	): Promise<void> {
+		const waiting =
+			key === undefined
+				? undefined
+				: this.waiting.find((entry) => entry.key === key);
+		return new Promise((resolve) => {
+			if (waiting) {
+				waiting.job.manual ||= manual;
+				const previous = waiting.resolve;
+				waiting.resolve = () => {
+					previous();
+					resolve();
+				};
+				return;
+			}
+			const job = new PublishJob(profile, manual, (j) =>
+				this.onChange(j),
+			);
+			this.waiting.push({ job, key, run, resolve });
+			void this.next();
+		});
+	}
+
+	/**
+	 * Cancels the running job and drops the waiting ones.
+	 *
+	 * @returns The number of cancelled jobs, and whether the running job could not be
+	 * cancelled because it was updating the branch.
+	 */
+	cancel(): { cancelled: number; committing: boolean } {
+		const dropped = this.waiting.splice(0);
+		for (const entry of dropped) entry.resolve();
+		let cancelled = dropped.length;
+		let committing = false;
+		if (this.running) {
+			if (this.running.cancel()) cancelled++;
+			else committing = true;
+		}
+		return { cancelled, committing };
+	}
+
+	/**
+	 * Runs the next waiting job, unless a job is running.
+	 *
+	 * @returns {Promise<void>} Resolves when the queue is idle.
+	 */
+	private async next(): Promise<void> {
+		if (this.running) return;
+		let entry;
+		while ((entry = this.waiting.shift())) {
+			this.running = entry.job;
+			this.onChange(entry.job);
+			try {
+				await entry.run(entry.job);
+			} catch (e) {
+				console.error("GitHub Publisher: publish job failed", e);
+			} finally {
+				this.running = null;
+				entry.resolve();
+			}
+		}
+		this.onChange(null);
+	}
+}
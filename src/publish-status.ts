@@ -0,0 +1,69 @@
+import { LocalFile } from "./publish-plan";
+import { ProfileSyncState } from "./sync-state";
+
+// Publish state of a file of a publish selection: up to date in the repository, modified
+// since its last publish, or not in the repository yet
+export type FileStatus = "published" | "modified" | "unpublished";
+
+// Interface for the publish state of a file across the profiles selecting it
+export interface FilePublishStatus {
+	status: FileStatus; // Most urgent state across the profiles
+	profiles: string[]; // Names of the profiles selecting the file
+}
+
+// Order of the states, from the least to the most urgent
+const STATUS_ORDER: FileStatus[] = ["published", "unpublished", "modified"];
+
+/**
+ * Computes the publish state of a gathered file for a profile, without reading it: the file is
+ * up to date if it did not change since it was last read and its blob is the remote one.
+ *
+ * @param file - The gathered file.
+ * @param publishedPaths - The repo paths published by the profile selecting the file.
+ * @param state - The sync state of the profile, if it matches its current target.
+ * @returns The publish state.
+ */
+export function fileStatus(
+	file: LocalFile,
+	publishedPaths: Set<string>,
+	state: ProfileSyncState | undefined,
+): FileStatus {
+	if (!state) {
+		// Without sync state, the published paths tell whether the file is in the repository
+		return publishedPaths.has(file.repoPath) ? "modified" : "unpublished";
+	}
+	const remote = state.remoteFiles[file.repoPath];
+	if (!remote) return "unpublished";
+	const read = state.files[file.vaultPath];
+	return read &&
+		read.mtime === file.stat.mtime &&
+		read.size === file.stat.size &&
+		read.sha === remote.sha
+		? "published"
+		: "modified";
+}
+
+/**
+ * Adds the state of a file for a profile to its state across profiles.
+ *
+ * @param statuses - The states by vault path, updated in place.
+ * @param path - The vault path of the file.
+ * @param status - The state of the file for the profile.
+ * @param profileName - The name of the profile.
+ */
+export function mergeFileStatus(
+	statuses: Map<string, FilePublishStatus>,
+	path: string,
+	status: FileStatus,
+	profileName: string,
+): void {
+	const current = statuses.get(path);
+	if (!current) {
+		statuses.set(path, { status, profiles: [profileName] });
+		return;
+	}
+	current.profiles.push(profileName);
+	if (STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(current.status)) {
+		current.status = status;
+	}
+}
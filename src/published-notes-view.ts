@@ -0,0 +1,96 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type GitHubPublisherPlugin from "./main";
+import { FileStatus } from "./publish-status";
+
+// Type of the published notes view
+export const VIEW_TYPE_PUBLISHED_NOTES = "github-publisher-published-notes";
+
+// Groups of the view, in display order
+const STATUS_GROUPS: { status: FileStatus; title: string }[] = [
+	{ status: "modified", title: "Modified since last publish" },
+	{ status: "unpublished", title: "Not published yet" },
+	{ status: "published", title: "Published" },
+];
+
+// View listing the files of the publish selections, grouped by publish state
+export class PublishedNotesView extends ItemView {
+	plugin: GitHubPublisherPlugin; // Plugin instance
+
+	/**
+	 * Creates an instance of the view.
+	 * @param leaf - The leaf the view is opened in.
+	 * @param plugin - The GitHubPublisherPlugin instance.
+	 */
+	constructor(leaf: WorkspaceLeaf, plugin: GitHubPublisherPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PUBLISHED_NOTES;
+	}
+
+	getDisplayText(): string {
+		return "Published notes";
+	}
+
+	getIcon(): string {
+		return "cloud-upload";
+	}
+
+	async onOpen(): Promise<void> {
+		this.render();
+	}
+
+	/**
+	 * Renders the files of the publish selections by publish state, with the profiles
+	 * selecting them. Clicking a file opens it.
+	 */
+	render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("github-publisher-published-notes");
+
+		const statuses = [...this.plugin.publishStatuses].sort(([a], [b]) =>
+			a.localeCompare(b),
+		);
+		if (statuses.length === 0) {
+			contentEl.createEl("p", {
+				text: "No note is selected for publishing.",
+				cls: "github-publisher-published-notes-empty",
+			});
+			return;
+		}
+
+		for (const { status, title } of STATUS_GROUPS) {
+			const files = statuses.filter(([, s]) => s.status === status);
+			if (files.length === 0) continue;
+
+			contentEl.createEl("h6", {
+				text: `${title} (${files.length})`,
+				cls: "github-publisher-published-notes-group",
+			});
+			for (const [path, fileStatus] of files) {
+				const item = contentEl.createDiv({
+					cls: [
+						"github-publisher-published-notes-item",
+						`mod-${status}`,
+					],
+				});
+				item.createEl("a", { text: path }).addEventListener(
+					"click",
+					(event) => {
+						event.preventDefault();
+						void this.app.workspace.openLinkText(path, "");
+					},
+				);
+				if (this.plugin.settings.profiles.length > 1) {
+					item.createSpan({
+						text: fileStatus.profiles.join(", "),
+						cls: "github-publisher-published-notes-profiles",
+					});
+				}
+			}
+		}
+	}
+}
@@ -0,0 +1,160 @@
+import { PublishChange, PublishPlan } from "./publish-plan";
+
+// Labels of the sections of the pull request description, by kind of change
+const SECTIONS: { action: PublishChange["action"]; label: string }[] = [
+	{ action: "added", label: "Added" },
+	{ action: "modified", label: "Modified" },
+	{ action: "deleted", label: "Deleted" },
+];
+
+/**
+ * Generates the description of the publish pull request, listing the changed files.
+ *
+ * @param plan - The applied publish plan.
+ * @returns The description, in Markdown.
+ */
+function pullRequestBody(plan: PublishPlan): string {
+	const lines = [
+		`Notes published from Obsidian (profile **${plan.profile.name}**).`,
+	];
+	for (const { action, label } of SECTIONS) {
+		const changes = plan.changes.filter((c) => c.action === action);
+		if (changes.length === 0) continue;
+		lines.push("", `### ${label}`, "");
+		for (const change of changes) {
+			lines.push(`- \`${change.repoPath}\``);
+		}
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Checks whether the publish branch already holds the given tree on top of the configured branch,
+ * in which case there is no need to create a new commit (e.g. on periodic publishes while the
+ * pull request is waiting for review).
+ *
+ * @param plan - The publish plan.
+ * @param treeSha - The SHA of the tree to publish.
+ * @returns {Promise<boolean>} True if the publish branch is up to date.
+ */
+export async function isPublishBranchUpToDate(
+	plan: PublishPlan,
+	treeSha: string,
+): Promise<boolean> {
+	const { octokit, owner, repo, profile } = plan;
+	try {
+		const ref = await octokit.rest.git.getRef({
+			owner,
+			repo,
+			ref: `heads/${profile.prBranch}`,
+		});
+		const commit = await octokit.rest.git.getCommit({
+			owner,
+			repo,
+			commit_sha: ref.data.object.sha,
+		});
+		return (
+			commit.data.tree.sha === treeSha &&
+			commit.data.parents.length === 1 &&
+			commit.data.parents[0].sha === plan.headSha
+		);
+	} catch (e) {
+		if ((e as { status?: number }).status === 404) return false;
+		throw e;
+	}
+}
+
+/**
+ * Publishes a commit through a pull request instead of pushing it to the configured branch.
+ *
+ * The dedicated publish branch is created from the commit if needed, or reset to it
+ * (the commit is always built on top of the configured branch). The pull request from the
+ * publish branch to the configured branch is then opened, or updated if one is already open,
+ * and auto-merge is enabled if requested.
+ *
+ * @param plan - The applied publish plan.
+ * @param commitSha - The SHA of the publish commit.
+ * @returns {Promise<string>} The URL of the pull request.
+ */
+export async function publishPullRequest(
+	plan: PublishPlan,
+	commitSha: string,
+): Promise<string> {
+	const { octokit, owner, repo, branch, profile } = plan;
+	const prBranch = profile.prBranch;
+
+	// Create the publish branch, or reset it to the new commit
+	let branchExists = true;
+	try {
+		await octokit.rest.git.getRef({
+			owner,
+			repo,
+			ref: `heads/${prBranch}`,
+		});
+	} catch (e) {
+		if ((e as { status?: number }).status !== 404) throw e;
+		branchExists = false;
+	}
+	if (branchExists) {
+		await octokit.rest.git.updateRef({
+			owner,
+			repo,
+			ref: `heads/${prBranch}`,
+			sha: commitSha,
+			force: true,
+		});
+	} else {
+		await octokit.rest.git.createRef({
+			owner,
+			repo,
+			ref: `refs/heads/${prBranch}`,
+			sha: commitSha,
+		});
+	}
+
+	// Open the pull request, or update the one already open
+	const title = `Publish Obsidian notes (${profile.name})`;
+	const body = pullRequestBody(plan);
+	const existing = await octokit.rest.pulls.list({
+		owner,
+		repo,
+		head: `${owner}:${prBranch}`,
+		base: branch,
+		state: "open",
+	});
+	const pullRequest =
+		existing.data.length > 0
+			? (
+					await octokit.rest.pulls.update({
+						owner,
+						repo,
+						pull_number: existing.data[0].number,
+						title,
+						body,
+					})
+				).data
+			: (
+					await octokit.rest.pulls.create({
+						owner,
+						repo,
+						head: prBranch,
+						base: branch,
+						title,
+						body,
+					})
+				).data;
+
+	// Enable auto-merge (only available through the GraphQL API)
+	if (profile.prAutoMerge && !pullRequest.auto_merge) {
+		await octokit.graphql(
+			`mutation ($id: ID!) {
+				enablePullRequestAutoMerge(input: { pullRequestId: $id }) {
+					clientMutationId
+				}
+			}`,
+			{ id: pullRequest.node_id },
+		);
+	}
+
+	return pullRequest.html_url;
+}
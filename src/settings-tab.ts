@@ -0,0 +1,1209 @@
+import {
+	App,
+	ButtonComponent,
+	Notice,
+	PluginSettingTab,
+	setIcon,
+	Setting,
+	TextComponent,
+} from "obsidian";
+import type GitHubPublisherPlugin from "./main";
+import { addMultiPathInput } from "./multi-path-input";
+import { addMultiTagInput } from "./multi-tag-input";
+import { UnpublishedLinkMode } from "./links";
+import { FRONTMATTER_PRESETS } from "./frontmatter-rules";
+import { branchNameError, parseRepoUrl } from "./github";
+import { ConnectionTestResult } from "./connection-test";
+import {
+	AuthMethod,
+	CommitAuthorMode,
+	createProfile,
+	DeletionMode,
+	PublishMode,
+	PublishProfile,
+	SigningFormat,
+	SyncMode,
+} from "./settings";
+
+// Settings tab class for the GitHub Publisher plugin
+export class GitHubPublisherSettingTab extends PluginSettingTab {
+	plugin: GitHubPublisherPlugin; // Plugin instance
+	active = false; // Whether the settings tab is currently active
+	selectedProfileId: string | null = null; // ID of the profile being edited
+
+	/**
+	 * Creates an instance of the class.
+	 * @param app - The application instance.
+	 * @param plugin - The GitHubPublisherPlugin instance.
+	 */
+	constructor(app: App, plugin: GitHubPublisherPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Displays the settings UI for the plugin.
+	 *
+	 * This method populates the container element with the profile selector
+	 * (to add, rename and remove profiles), followed by the settings of the selected profile.
+	 *
+	 * @returns {void}
+	 */
+	display(): void {
+		this.active = true;
+		const { containerEl } = this;
+		containerEl.empty();
+
+		const profiles = this.plugin.settings.profiles;
+		const profile =
+			profiles.find((p) => p.id === this.selectedProfileId) ??
+			profiles[0];
+		this.selectedProfileId = profile?.id ?? null;
+
+		// Profile selector
+		new Setting(containerEl)
+			.setName("Publish profile")
+			.setDesc(
+				"Each profile publishes its own selection to its own repository.",
+			)
+			.addDropdown((dropdown) => {
+				for (const p of profiles) {
+					dropdown.addOption(p.id, p.name);
+				}
+				if (profile) dropdown.setValue(profile.id);
+				dropdown.onChange((value) => {
+					this.selectedProfileId = value;
+					this.display();
+				});
+			})
+			.addButton((btn) =>
+				btn.setButtonText("Add profile").onClick(async () => {
+					const newProfile = createProfile(
+						`Profile ${profiles.length + 1}`,
+					);
+					profiles.push(newProfile);
+					this.selectedProfileId = newProfile.id;
+					await this.plugin.saveSettings();
+					this.display();
+				}),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Remove profile")
+					.setWarning()
+					.setDisabled(!profile)
+					.onClick(async () => {
+						if (!profile) return;
+						profiles.splice(profiles.indexOf(profile), 1);
+						this.selectedProfileId = null;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (!profile) return;
+		this.displayProfile(containerEl, profile);
+	}
+
+	/**
+	 * Displays the settings of a profile.
+	 *
+	 * This method populates the container element with various settings fields:
+	 * - Profile name, repository URL, API base URL and authentication
+	 * - Branch, publish mode and connection test
+	 * - Commit message, author and signing
+	 * - Target folder and path rules
+	 * - Selection: publish tags, exclusions, drafts, notes/folders to export and unpublished ones
+	 * - Deletion mode, protected files and attachments
+	 * - Frontmatter rules and link conversion
+	 * - Automatic push, push on startup and two-way sync
+	 * - Buttons to preview or trigger immediate synchronization
+	 *
+	 * If a last sync date exists, it displays the last synchronization time.
+	 *
+	 * @param containerEl - The element to populate.
+	 * @param profile - The profile to edit.
+	 * @returns {void}
+	 */
+	displayProfile(containerEl: HTMLElement, profile: PublishProfile): void {
+		// Profile name input
+		new Setting(containerEl)
+			.setName("Profile name")
+			.setDesc("Used in the command palette (publish profile <name>).")
+			.addText((text) =>
+				text.setValue(profile.name).onChange(async (value) => {
+					profile.name = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		// GitHub repository URL input, validated as it is typed
+		const repoUrlDesc =
+			"Ex: https://github.com/yourusername/yourrepo (HTTPS or SSH URL, on GitHub or GitHub Enterprise Server)";
+		let apiUrlText: TextComponent | undefined;
+		const repoUrlSetting = new Setting(containerEl)
+			.setName("Repository URL")
+			.addText((text) =>
+				text.setValue(profile.repoUrl).onChange(async (value) => {
+					profile.repoUrl = value;
+					this.showValidation(
+						repoUrlSetting,
+						repoUrlDesc,
+						this.repoUrlError(profile),
+					);
+					apiUrlText?.setPlaceholder(this.derivedApiUrl(profile));
+					await this.plugin.saveSettings();
+				}),
+			);
+		this.showValidation(
+			repoUrlSetting,
+			repoUrlDesc,
+			this.repoUrlError(profile),
+		);
+
+		// API base URL input
+		new Setting(containerEl)
+			.setName("API base URL")
+			.setDesc(
+				"Leave empty to derive it from the repository URL (https://api.github.com on GitHub, /api/v3 on the host of the repository otherwise).",
+			)
+			.addText((text) => {
+				apiUrlText = text;
+				text.setPlaceholder(this.derivedApiUrl(profile))
+					.setValue(profile.apiBaseUrl)
+					.onChange(async (value) => {
+						profile.apiBaseUrl = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		this.displayAuthentication(containerEl, profile);
+
+		// GitHub branch input, validated as it is typed
+		const branchSetting = new Setting(containerEl)
+			.setName("Branch name")
+			.addText((text) =>
+				text.setValue(profile.repoBranch).onChange(async (value) => {
+					profile.repoBranch = value;
+					this.showValidation(
+						branchSetting,
+						"Ex: main",
+						branchNameError(value.trim()),
+					);
+					await this.plugin.saveSettings();
+				}),
+			);
+		this.showValidation(
+			branchSetting,
+			"Ex: main",
+			profile.repoBranch
+				? branchNameError(profile.repoBranch.trim())
+				: null,
+		);
+
+		// Publish mode
+		new Setting(containerEl)
+			.setName("Publish mode")
+			.setDesc(
+				"Push directly to the branch, or commit to a dedicated branch and open a pull request against it.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						push: "Push to the branch",
+						"pull-request": "Open a pull request",
+					})
+					.setValue(profile.publishMode)
+					.onChange(async (value) => {
+						profile.publishMode = value as PublishMode;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (profile.publishMode === "pull-request") {
+			// Publish branch input, validated as it is typed
+			const prBranchDesc =
+				"Branch holding the publish commit, reset on each publish.";
+			const prBranchSetting = new Setting(containerEl)
+				.setName("Publish branch")
+				.addText((text) =>
+					text.setValue(profile.prBranch).onChange(async (value) => {
+						profile.prBranch = value;
+						this.showValidation(
+							prBranchSetting,
+							prBranchDesc,
+							branchNameError(value.trim()),
+						);
+						await this.plugin.saveSettings();
+					}),
+				);
+			this.showValidation(
+				prBranchSetting,
+				prBranchDesc,
+				branchNameError(profile.prBranch.trim()),
+			);
+
+			// Auto-merge toggle
+			new Setting(containerEl)
+				.setName("Enable auto-merge")
+				.setDesc(
+					"Merge the pull request automatically once its checks and reviews pass (auto-merge must be allowed in the repository).",
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(profile.prAutoMerge)
+						.onChange(async (value) => {
+							profile.prAutoMerge = value;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
+		this.displayConnectionTest(containerEl, profile);
+
+		// Commit message template input
+		new Setting(containerEl)
+			.setName("Commit message")
+			.setDesc(
+				"Placeholders: {{date}}, {{added}}, {{modified}}, {{deleted}}, {{notes}} (titles of the changed notes) and {{profile}}.",
+			)
+			.addTextArea((text) =>
+				text.setValue(profile.commitMessage).onChange(async (value) => {
+					profile.commitMessage = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		// Commit message prompt toggle
+		new Setting(containerEl)
+			.setName("Ask for the commit message")
+			.setDesc(
+				"On manual publishes, edit the commit message before publishing.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(profile.promptCommitMessage)
+					.onChange(async (value) => {
+						profile.promptCommitMessage = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Commit author dropdown
+		new Setting(containerEl)
+			.setName("Commit author")
+			.setDesc("Author and committer of the publish commits.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						plugin: "GitHub Publisher",
+						token: "Owner of the token",
+						custom: "Custom",
+					})
+					.setValue(profile.commitAuthor)
+					.onChange(async (value) => {
+						profile.commitAuthor = value as CommitAuthorMode;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (profile.commitAuthor === "custom") {
+			// Author name input
+			new Setting(containerEl).setName("Author name").addText((text) =>
+				text.setValue(profile.authorName).onChange(async (value) => {
+					profile.authorName = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+			// Author email input
+			new Setting(containerEl)
+				.setName("Author email")
+				.setDesc(
+					"Use an email of your GitHub account for the commits to be attributed to you.",
+				)
+				.addText((text) =>
+					text
+						.setValue(profile.authorEmail)
+						.onChange(async (value) => {
+							profile.authorEmail = value;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
+		// Commit signing dropdown
+		new Setting(containerEl)
+			.setName("Commit signing")
+			.setDesc(
+				"Sign the publish commits, for branches requiring signed commits. Add the public key to the GitHub account of the commit author for the commits to be verified.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						none: "Not signed",
+						openpgp: "OpenPGP key",
+						ssh: "SSH key",
+					})
+					.setValue(profile.signingFormat)
+					.onChange(async (value) => {
+						profile.signingFormat = value as SigningFormat;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (profile.signingFormat !== "none") {
+			// Signing key input
+			new Setting(containerEl)
+				.setName("Signing key")
+				.setDesc(
+					profile.signingFormat === "ssh"
+						? "Ed25519 private key in the OpenSSH format, without passphrase. It is stored in the plugin settings."
+						: "Armored OpenPGP private key. It is stored in the plugin settings.",
+				)
+				.addTextArea((text) => {
+					text.setValue(profile.signingKey).onChange(
+						async (value) => {
+							profile.signingKey = value;
+							await this.plugin.saveSettings();
+						},
+					);
+					text.inputEl.rows = 4;
+				});
+		}
+
+		if (profile.signingFormat === "openpgp") {
+			// Signing key passphrase input
+			new Setting(containerEl)
+				.setName("Signing key passphrase")
+				.setDesc("Empty if the key is not protected by a passphrase.")
+				.addText((text) => {
+					text.inputEl.type = "password";
+					text.setValue(profile.signingPassphrase).onChange(
+						async (value) => {
+							profile.signingPassphrase = value;
+							await this.plugin.saveSettings();
+						},
+					);
+				});
+		}
+
+		// Target folder in the repository input
+		new Setting(containerEl)
+			.setName("Target folder in the repo")
+			.setDesc(
+				"Relative path in the repo where to place the notes (empty for root folder).",
+			)
+			.addText((text) =>
+				text.setValue(profile.repoFolder).onChange(async (value) => {
+					profile.repoFolder = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		// Folder mappings
+		const pathRules = profile.pathRules;
+		new Setting(containerEl)
+			.setName("Folder mappings")
+			.setDesc(
+				"One vault_folder: repo_folder mapping per line, the repo folder being relative to the target folder.",
+			)
+			.addTextArea((text) =>
+				text
+					.setValue(
+						pathRules.mappings
+							.map(({ from, to }) => `${from}: ${to}`)
+							.join("\n"),
+					)
+					.onChange(async (value) => {
+						pathRules.mappings = value
+							.split("\n")
+							.map((line) => line.split(/:(.*)/))
+							.filter(([from]) => from?.trim())
+							.map(([from, to]) => ({
+								from: from.trim(),
+								to: (to ?? "").trim(),
+							}));
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Slugification toggle
+		new Setting(containerEl)
+			.setName("Slugify paths")
+			.setDesc(
+				"Lowercase folder and file names, replace spaces and punctuation with hyphens and accented letters with ASCII ones.",
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(pathRules.slugify).onChange(async (value) => {
+					pathRules.slugify = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		// Flattening toggle
+		new Setting(containerEl)
+			.setName("Flatten folders")
+			.setDesc(
+				"Publish every file directly in the target folder (or in its mapped folder), without its vault folders.",
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(pathRules.flatten).onChange(async (value) => {
+					pathRules.flatten = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		// Extension mappings
+		new Setting(containerEl)
+			.setName("Extension mappings")
+			.setDesc("One vault_extension: repo_extension mapping per line.")
+			.addTextArea((text) =>
+				text
+					.setValue(
+						pathRules.extensions
+							.map(({ from, to }) => `${from}: ${to}`)
+							.join("\n"),
+					)
+					.onChange(async (value) => {
+						pathRules.extensions = value
+							.split("\n")
+							.map((line) => line.split(/:(.*)/))
+							.filter(([from, to]) => from?.trim() && to?.trim())
+							.map(([from, to]) => ({
+								from: from.trim().replace(/^\./, ""),
+								to: to.trim().replace(/^\./, ""),
+							}));
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Publish tags
+		new Setting(containerEl)
+			.setName("Publish files with given tags")
+			.setDesc(
+				"Publish all files containing any of these tags (press enter to add tag).",
+			)
+			.then((setting) => {
+				addMultiTagInput(
+					setting.controlEl,
+					profile.publishTags,
+					(selected) => {
+						profile.publishTags = selected;
+						void this.plugin.saveSettings();
+					},
+				);
+				return setting;
+			});
+
+		// Exclusion patterns
+		new Setting(containerEl)
+			.setName("Excluded paths")
+			.setDesc(
+				"Glob patterns (or /regular expressions/) of vault paths never published, even inside selected folders (press enter to add pattern).",
+			)
+			.then((setting) => {
+				addMultiTagInput(
+					setting.controlEl,
+					profile.excludePatterns,
+					(selected) => {
+						profile.excludePatterns = selected;
+						void this.plugin.saveSettings();
+					},
+					{ placeholder: "*.excalidraw.md", prefix: "" },
+				);
+				return setting;
+			});
+
+		// Exclusion tags
+		new Setting(containerEl)
+			.setName("Excluded tags")
+			.setDesc(
+				"Never publish files containing any of these tags (press enter to add tag).",
+			)
+			.then((setting) => {
+				addMultiTagInput(
+					setting.controlEl,
+					profile.excludeTags,
+					(selected) => {
+						profile.excludeTags = selected;
+						void this.plugin.saveSettings();
+					},
+					{ placeholder: "#private" },
+				);
+				return setting;
+			});
+
+		// Drafts publishing
+		new Setting(containerEl)
+			.setName("Publish drafts")
+			.setDesc(
+				"Also publish the notes declaring draft: true in their frontmatter.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(profile.publishDrafts)
+					.onChange(async (value) => {
+						profile.publishDrafts = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Files/folders to publish from the vault
+		new Setting(containerEl)
+			.setName("Notes/folders to export")
+			.setDesc(
+				"Start typing and select from the suggestions. You can add multiple items.",
+			)
+			.then((setting) => {
+				addMultiPathInput(
+					setting.controlEl,
+					this.app,
+					profile.selectedPaths,
+					(selected) => {
+						profile.selectedPaths = selected;
+						void this.plugin.saveSettings();
+					},
+				);
+				return setting;
+			});
+
+		// Unpublished notes/folders
+		new Setting(containerEl)
+			.setName("Unpublished notes/folders")
+			.setDesc(
+				"Notes and folders unpublished from the file menu, never published whatever selects them. Remove one to publish it again.",
+			)
+			.then((setting) => {
+				addMultiPathInput(
+					setting.controlEl,
+					this.app,
+					profile.unpublishedPaths,
+					(selected) => {
+						profile.unpublishedPaths = selected;
+						void this.plugin.saveSettings();
+					},
+				);
+				return setting;
+			});
+
+		// Deletion mode
+		new Setting(containerEl)
+			.setName("Deletion of unpublished files")
+			.setDesc(
+				"Which files of the target folder (the whole repository if it is empty) are deleted when they are not published anymore.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						mirror: "Mirror: delete every file not published",
+						managed: "Delete only files published by the plugin",
+						never: "Never delete",
+					})
+					.setValue(profile.deletionMode)
+					.onChange(async (value) => {
+						profile.deletionMode = value as DeletionMode;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Protected patterns
+		new Setting(containerEl)
+			.setName("Protected files")
+			.setDesc(
+				"Glob patterns of repo paths that are never deleted, e.g. _config.yml or .github/** (press enter to add pattern).",
+			)
+			.then((setting) => {
+				addMultiTagInput(
+					setting.controlEl,
+					profile.protectedPatterns,
+					(selected) => {
+						profile.protectedPatterns = selected;
+						void this.plugin.saveSettings();
+					},
+					{ placeholder: "index.md", prefix: "" },
+				);
+				return setting;
+			});
+
+		// Attachments publishing
+		new Setting(containerEl)
+			.setName("Publish attachments")
+			.setDesc(
+				"Also publish the images, PDF and audio files embedded or linked in the published notes.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(profile.publishAttachments)
+					.onChange(async (value) => {
+						profile.publishAttachments = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Attachments deletion on unpublish
+		new Setting(containerEl)
+			.setName("Unpublish unreferenced attachments")
+			.setDesc(
+				"When unpublishing a note, also delete its attachments that no other published note references.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(profile.unpublishAttachments)
+					.onChange(async (value) => {
+						profile.unpublishAttachments = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Attachments folder in the repository input
+		new Setting(containerEl)
+			.setName("Attachments folder in the repo")
+			.setDesc(
+				"Relative path in the repo where to place the attachments (empty to place them next to the notes). Only used with wikilink conversion, which rewrites the links to them. Its content is overwritten on each publish.",
+			)
+			.addText((text) =>
+				text
+					.setValue(profile.attachmentsFolder)
+					.onChange(async (value) => {
+						profile.attachmentsFolder = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Frontmatter preset
+		const rules = profile.frontmatterRules;
+		new Setting(containerEl)
+			.setName("Frontmatter preset")
+			.setDesc(
+				"Replace the frontmatter rules below with the ones expected by a static site generator.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						"": "Choose a preset...",
+						hugo: "Hugo",
+						jekyll: "Jekyll",
+						astro: "Astro",
+					})
+					.onChange(async (value) => {
+						if (!FRONTMATTER_PRESETS[value]) return;
+						profile.frontmatterRules = structuredClone(
+							FRONTMATTER_PRESETS[value],
+						);
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		// Injected frontmatter fields
+		new Setting(containerEl)
+			.setName("Injected frontmatter fields")
+			.setDesc(
+				"One key: value per line, added when missing. Placeholders: {{basename}}, {{path}}, {{ctime}} (creation date), {{mtime}} (modification date).",
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("date: {{ctime}}")
+					.setValue(
+						rules.inject
+							.map(({ key, value }) => `${key}: ${value}`)
+							.join("\n"),
+					)
+					.onChange(async (value) => {
+						rules.inject = value
+							.split("\n")
+							.map((line) => line.split(/:(.*)/))
+							.filter(([key]) => key.trim())
+							.map(([key, val]) => ({
+								key: key.trim(),
+								value: (val ?? "").trim(),
+							}));
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Renamed frontmatter keys
+		new Setting(containerEl)
+			.setName("Renamed frontmatter keys")
+			.setDesc("One old_key: new_key mapping per line.")
+			.addTextArea((text) =>
+				text
+					.setValue(
+						rules.rename
+							.map(({ from, to }) => `${from}: ${to}`)
+							.join("\n"),
+					)
+					.onChange(async (value) => {
+						rules.rename = value
+							.split("\n")
+							.map((line) => line.split(/:(.*)/))
+							.filter(([from, to]) => from?.trim() && to?.trim())
+							.map(([from, to]) => ({
+								from: from.trim(),
+								to: to.trim(),
+							}));
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Dropped frontmatter keys
+		new Setting(containerEl)
+			.setName("Dropped frontmatter keys")
+			.setDesc(
+				"Keys removed from the published notes, use dots for nested keys (press enter to add key).",
+			)
+			.then((setting) => {
+				addMultiTagInput(
+					setting.controlEl,
+					rules.drop,
+					(selected) => {
+						rules.drop = selected;
+						void this.plugin.saveSettings();
+					},
+					{ placeholder: "private", prefix: "" },
+				);
+				return setting;
+			});
+
+		// Frontmatter stripping
+		new Setting(containerEl)
+			.setName("Strip frontmatter")
+			.setDesc(
+				"Remove the frontmatter entirely from the published notes (the rules above are ignored).",
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(rules.strip).onChange(async (value) => {
+					rules.strip = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		// Wikilinks conversion
+		new Setting(containerEl)
+			.setName("Convert wikilinks")
+			.setDesc(
+				"Rewrite wikilinks and embeds to standard Markdown links pointing to the published files.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(profile.convertWikilinks)
+					.onChange(async (value) => {
+						profile.convertWikilinks = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Links to unpublished notes
+		new Setting(containerEl)
+			.setName("Links to unpublished notes")
+			.setDesc(
+				"How to convert links to notes that are not part of the published files.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						text: "Keep as plain text",
+						raw: "Keep the wikilink",
+						warn: "Keep as plain text and warn",
+					})
+					.setValue(profile.unpublishedLinks)
+					.onChange(async (value) => {
+						profile.unpublishedLinks = value as UnpublishedLinkMode;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Automatic publishing mode
+		new Setting(containerEl)
+			.setName("Automatic push")
+			.setDesc(
+				"Push on a fixed interval, or when files of the selection change.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						interval: "On an interval",
+						"on-change": "On change",
+					})
+					.setValue(profile.syncMode)
+					.onChange(async (value) => {
+						profile.syncMode = value as SyncMode;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (profile.syncMode === "interval") {
+			// Sync interval input
+			new Setting(containerEl)
+				.setName("Push interval (min)")
+				.setDesc("Push every X minutes (0 to disable periodic push)")
+				.addText((text) =>
+					text
+						.setValue(String(profile.syncInterval))
+						.onChange(async (value) => {
+							profile.syncInterval = Number(value);
+							await this.plugin.saveSettings();
+						}),
+				);
+		} else {
+			// Quiet period input
+			new Setting(containerEl)
+				.setName("Quiet period (s)")
+				.setDesc(
+					"Push once no file of the selection changed for X seconds.",
+				)
+				.addText((text) =>
+					text
+						.setValue(String(profile.changeDelay))
+						.onChange(async (value) => {
+							profile.changeDelay = Number(value);
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
+		// Publish on startup toggle
+		new Setting(containerEl)
+			.setName("Push on startup")
+			.setDesc("Push when Obsidian starts.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(profile.publishOnStartup)
+					.onChange(async (value) => {
+						profile.publishOnStartup = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		// Two-way sync toggle
+		new Setting(containerEl)
+			.setName("Two-way sync")
+			.setDesc(
+				"Before publishing, pull into the vault the published files changed on GitHub since their last sync. When a file also changed in the vault, choose which version to keep.",
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(profile.twoWaySync).onChange(async (value) => {
+					profile.twoWaySync = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		// Preview and force sync buttons
+		new Setting(containerEl)
+			.addButton((btn) =>
+				btn.setButtonText("Preview").onClick(async () => {
+					await this.plugin.previewPublish(profile);
+				}),
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Synchronize now")
+					.setCta()
+					.onClick(async () => {
+						await this.plugin.publishToGitHub(profile, true);
+					}),
+			);
+
+		// Last sync date info
+		if (profile.lastSyncDate) {
+			const info = containerEl.createDiv({
+				cls: "github-publisher-last-sync",
+			});
+			info.textContent =
+				"Last synchronization: " +
+				new Date(profile.lastSyncDate).toLocaleString();
+		}
+	}
+
+	/**
+	 * Hides the current object by setting its active state to false.
+	 */
+	hide(): void {
+		this.active = false;
+	}
+
+	/**
+	 * Populates the authentication settings of a profile: the authentication method and the
+	 * fields of the selected method. The access is checked with the connection test.
+	 *
+	 * @param containerEl - The element to populate.
+	 * @param profile - The profile to edit.
+	 */
+	private displayAuthentication(
+		containerEl: HTMLElement,
+		profile: PublishProfile,
+	): void {
+		// Authentication method dropdown
+		new Setting(containerEl)
+			.setName("Authentication")
+			.setDesc(
+				"Personal access token, sign in through an app registered on GitHub, or installation of a GitHub app.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						token: "Personal access token",
+						oauth: "Sign in with GitHub",
+						app: "GitHub App",
+					})
+					.setValue(profile.authMethod)
+					.onChange(async (value) => {
+						profile.authMethod = value as AuthMethod;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (profile.authMethod === "token") {
+			// GitHub token input
+			new Setting(containerEl)
+				.setName("GitHub token")
+				.setDesc("Personal token with write access to the repo.")
+				.addText((text) => {
+					text.inputEl.type = "password";
+					text.setValue(profile.githubToken).onChange(
+						async (value) => {
+							profile.githubToken = value;
+							await this.plugin.saveSettings();
+						},
+					);
+				});
+		} else if (profile.authMethod === "oauth") {
+			// OAuth client ID input
+			new Setting(containerEl)
+				.setName("Client ID")
+				.setDesc(
+					"Client ID of the app used to sign in, with the device flow enabled.",
+				)
+				.addText((text) =>
+					text
+						.setValue(profile.oauthClientId)
+						.onChange(async (value) => {
+							profile.oauthClientId = value;
+							await this.plugin.saveSettings();
+						}),
+				);
+
+			// Sign in status and buttons
+			const token = profile.oauthToken;
+			const account = new Setting(containerEl)
+				.setName("GitHub account")
+				.setDesc(
+					token
+						? `Signed in as ${token.login ?? "unknown user"}.`
+						: "Not signed in.",
+				);
+			if (token) {
+				account.addButton((btn) =>
+					btn.setButtonText("Sign out").onClick(async () => {
+						profile.oauthToken = null;
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+				);
+			} else {
+				account.addButton((btn) =>
+					btn
+						.setButtonText("Sign in")
+						.setCta()
+						.onClick(async () => {
+							await this.plugin.signInWithGitHub(profile);
+							this.display();
+						}),
+				);
+			}
+		} else {
+			// GitHub App ID input
+			new Setting(containerEl)
+				.setName("App ID")
+				.setDesc("ID of the GitHub app, shown in its settings.")
+				.addText((text) =>
+					text.setValue(profile.appId).onChange(async (value) => {
+						profile.appId = value;
+						await this.plugin.saveSettings();
+					}),
+				);
+
+			// GitHub App private key input
+			new Setting(containerEl)
+				.setName("Private key")
+				.setDesc(
+					"Private key file of the GitHub app. It is stored in the plugin settings.",
+				)
+				.addTextArea((text) => {
+					text.setValue(profile.appPrivateKey).onChange(
+						async (value) => {
+							profile.appPrivateKey = value;
+							await this.plugin.saveSettings();
+						},
+					);
+					text.inputEl.rows = 4;
+				});
+
+			// GitHub App installation ID input
+			new Setting(containerEl)
+				.setName("Installation ID")
+				.setDesc(
+					"Leave empty to use the installation of the app on the repository.",
+				)
+				.addText((text) =>
+					text
+						.setValue(profile.appInstallationId)
+						.onChange(async (value) => {
+							profile.appInstallationId = value;
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+	}
+
+	/**
+	 * Adds the "Test connection" button of a profile, and the list where the result of each
+	 * check is shown. A missing branch can be created from the list.
+	 *
+	 * @param containerEl - The element to populate.
+	 * @param profile - The profile to test.
+	 */
+	private displayConnectionTest(
+		containerEl: HTMLElement,
+		profile: PublishProfile,
+	): void {
+		new Setting(containerEl)
+			.setName("Test connection")
+			.setDesc(
+				"Checks the repository URL, the authentication, the access to the repository and the branch.",
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Test").onClick(() => run(btn)),
+			);
+		const resultsEl = containerEl.createDiv({
+			cls: "github-publisher-connection-test",
+		});
+		const run = async (btn: ButtonComponent) => {
+			btn.setDisabled(true);
+			resultsEl.empty();
+			resultsEl.createDiv({ text: "Testing…" });
+			try {
+				const result = await this.plugin.testProfileConnection(profile);
+				this.renderConnectionTest(resultsEl, profile, result, () =>
+					run(btn),
+				);
+			} finally {
+				btn.setDisabled(false);
+			}
+		};
+	}
+
+	/**
+	 * Renders the result of a connection test, with a button creating the branch if it is missing.
+	 *
+	 * @param resultsEl - The element to render the result in.
+	 * @param profile - The tested profile.
+	 * @param result - The result of the test.
+	 * @param retest - Runs the test again.
+	 */
+	private renderConnectionTest(
+		resultsEl: HTMLElement,
+		profile: PublishProfile,
+		result: ConnectionTestResult,
+		retest: () => Promise<void>,
+	): void {
+		resultsEl.empty();
+		const icons = { success: "check", error: "x", skipped: "minus" };
+		for (const check of result.checks) {
+			const item = resultsEl.createDiv({
+				cls: [
+					"github-publisher-connection-check",
+					`mod-${check.status}`,
+				],
+			});
+			setIcon(item.createSpan(), icons[check.status]);
+			item.createSpan({
+				text: check.label,
+				cls: "github-publisher-connection-label",
+			});
+			item.createSpan({ text: check.message });
+		}
+
+		const branch = result.missingBranch;
+		if (branch) {
+			new Setting(resultsEl)
+				.setDesc(
+					`Create ${branch} from the default branch of the repository?`,
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText("Create branch")
+						.setCta()
+						.onClick(async () => {
+							btn.setDisabled(true);
+							try {
+								await this.plugin.createProfileBranch(profile);
+								new Notice(`Branch ${branch} created`);
+								await retest();
+							} catch (e) {
+								new Notice(
+									`Branch ${branch} could not be created: ${e instanceof Error ? e.message : String(e)}`,
+								);
+								btn.setDisabled(false);
+							}
+						}),
+				);
+		}
+	}
+
+	/**
+	 * Shows the description of a setting, or the reason its value is invalid.
+	 *
+	 * @param setting - The setting.
+	 * @param description - The description shown when the value is valid.
+	 * @param error - The reason the value is invalid, or null if it is valid.
+	 */
+	private showValidation(
+		setting: Setting,
+		description: string,
+		error: string | null,
+	): void {
+		setting.setDesc(
+			error
+				? error.charAt(0).toUpperCase() + error.slice(1)
+				: description,
+		);
+		setting.descEl.toggleClass("github-publisher-invalid", !!error);
+	}
+
+	/**
+	 * Checks the repository URL of a profile.
+	 *
+	 * @param profile - The profile.
+	 * @returns The reason the URL is invalid, or null if it is valid or empty.
+	 */
+	private repoUrlError(profile: PublishProfile): string | null {
+		if (!profile.repoUrl.trim()) return null;
+		try {
+			parseRepoUrl(profile.repoUrl);
+			return null;
+		} catch (e) {
+			return e instanceof Error ? e.message : String(e);
+		}
+	}
+
+	/**
+	 * Returns the API base URL derived from the repository URL of a profile.
+	 *
+	 * @param profile - The profile.
+	 * @returns The derived API base URL, or an empty string if the repository URL is invalid.
+	 */
+	private derivedApiUrl(profile: PublishProfile): string {
+		try {
+			return parseRepoUrl(profile.repoUrl).apiUrl;
+		} catch {
+			return "";
+		}
+	}
+}
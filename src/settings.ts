@@ -0,0 +1,184 @@
+import { UnpublishedLinkMode } from "./links";
+import { FrontmatterRules } from "./frontmatter-rules";
+import { PathRules } from "./paths";
+import { OAuthToken } from "./auth";
+
+// How the plugin authenticates: personal access token, OAuth device flow, or GitHub App installation
+export type AuthMethod = "token" | "oauth" | "app";
+
+// How changes are published: pushed to the branch, or through a pull request
+export type PublishMode = "push" | "pull-request";
+
+// When changes are published automatically: on a fixed interval, or when selected files change
+export type SyncMode = "interval" | "on-change";
+
+// Author of the publish commits: the plugin, the owner of the token, or a custom identity
+export type CommitAuthorMode = "plugin" | "token" | "custom";
+
+// How publish commits are signed: not signed, with an OpenPGP key, or with an SSH key
+export type SigningFormat = "none" | "openpgp" | "ssh";
+
+// How remote files that are not published anymore are deleted
+export type DeletionMode = "mirror" | "never" | "managed";
+
+// Interface for a publish profile (a named publish target)
+export interface PublishProfile {
+	id: string; // Unique identifier of the profile
+	name: string; // Name of the profile, displayed in commands and settings
+	authMethod: AuthMethod; // How the plugin authenticates to GitHub
+	githubToken: string; // GitHub personal access token
+	oauthClientId: string; // Client ID of the OAuth App or GitHub App used to sign in with the device flow
+	oauthToken: OAuthToken | null; // Token obtained by signing in with the device flow
+	appId: string; // ID of the GitHub App
+	appPrivateKey: string; // Private key of the GitHub App, in the PEM format
+	appInstallationId: string; // ID of the installation of the GitHub App (empty to find it from the repository)
+	repoUrl: string; // URL of the GitHub repository (or of a GitHub Enterprise Server repository)
+	apiBaseUrl: string; // Base URL of the API (empty to derive it from the repository URL)
+	repoFolder: string; // Relative path in the repo where notes will be placed
+	repoBranch: string; // Branch to push changes to
+	pathRules: PathRules; // Rules mapping vault paths to repo paths
+	selectedPaths: string[]; // List of paths to sync (files or folders in the vault)
+	publishTags: string[]; // Tags that mark files for publishing (e.g. ["#note", "#publish"])
+	excludePatterns: string[]; // Glob patterns or /regular expressions/ of vault paths never published
+	excludeTags: string[]; // Tags that mark files as never published (e.g. ["#private"])
+	unpublishedPaths: string[]; // Notes and folders unpublished explicitly, never published until re-enabled
+	publishDrafts: boolean; // Publish notes declaring `draft: true` in their frontmatter
+	syncMode: SyncMode; // Publish on a fixed interval, or when selected files change
+	syncInterval: number; // Sync interval in minutes
+	changeDelay: number; // Quiet period in seconds after the last change before publishing (on change mode)
+	publishOnStartup: boolean; // Publish when Obsidian starts
+	twoWaySync: boolean; // Pull the files changed on GitHub into the vault before publishing
+	publishMode: PublishMode; // Push to the branch, or open a pull request against it
+	prBranch: string; // Branch holding the publish commit in pull request mode
+	prAutoMerge: boolean; // Enable auto-merge on the publish pull request
+	commitMessage: string; // Template of the commit message ({{date}}, {{added}}, {{modified}}, {{deleted}}, {{notes}}, {{profile}})
+	promptCommitMessage: boolean; // Ask for the commit message on manual publishes
+	commitAuthor: CommitAuthorMode; // Author of the publish commits
+	authorName: string; // Name of the author (custom author)
+	authorEmail: string; // Email of the author (custom author)
+	signingFormat: SigningFormat; // How publish commits are signed
+	signingKey: string; // Armored private key used to sign commits (OpenPGP, or Ed25519 in the OpenSSH format)
+	signingPassphrase: string; // Passphrase of the OpenPGP signing key
+	convertWikilinks: boolean; // Convert wikilinks and embeds to standard Markdown links
+	unpublishedLinks: UnpublishedLinkMode; // What to do with links to notes that are not published
+	frontmatterRules: FrontmatterRules; // Frontmatter transformation rules applied to published notes
+	publishAttachments: boolean; // Publish the attachments referenced by published notes
+	attachmentsFolder: string; // Relative path in the repo where attachments are placed (empty to place them next to the notes)
+	deletionMode: DeletionMode; // Delete every remote file not published, never delete, or delete only files previously published by the plugin
+	protectedPatterns: string[]; // Glob patterns or /regular expressions/ of repo paths that are never deleted
+	unpublishAttachments: boolean; // Delete the attachments no other published note references when unpublishing a note
+	publishedPaths: string[]; // Manifest of the repo paths published by the plugin
+	lastSyncDate?: string; // Last sync date in ISO format
+}
+
+// Interface for plugin settings
+export interface GitHubPublisherSettings {
+	profiles: PublishProfile[]; // Publish profiles
+}
+
+// Default values of a new profile
+export const DEFAULT_PROFILE: Omit<PublishProfile, "id" | "name"> = {
+	authMethod: "token",
+	githubToken: "",
+	oauthClientId: "",
+	oauthToken: null,
+	appId: "",
+	appPrivateKey: "",
+	appInstallationId: "",
+	repoUrl: "",
+	apiBaseUrl: "",
+	repoFolder: "",
+	repoBranch: "main",
+	pathRules: { mappings: [], slugify: false, flatten: false, extensions: [] },
+	selectedPaths: [],
+	publishTags: [],
+	excludePatterns: [],
+	excludeTags: [],
+	unpublishedPaths: [],
+	publishDrafts: false,
+	syncMode: "interval",
+	syncInterval: 60,
+	changeDelay: 30,
+	publishOnStartup: false,
+	twoWaySync: false,
+	publishMode: "push",
+	prBranch: "obsidian-publish",
+	prAutoMerge: false,
+	commitMessage: "Publish Obsidian → GitHub",
+	promptCommitMessage: false,
+	commitAuthor: "plugin",
+	authorName: "",
+	authorEmail: "",
+	signingFormat: "none",
+	signingKey: "",
+	signingPassphrase: "",
+	convertWikilinks: false,
+	unpublishedLinks: "text",
+	frontmatterRules: { inject: [], rename: [], drop: [], strip: false },
+	publishAttachments: false,
+	attachmentsFolder: "",
+	deletionMode: "mirror",
+	protectedPatterns: [],
+	unpublishAttachments: true,
+	publishedPaths: [],
+};
+
+// Default settings for the plugin
+export const DEFAULT_SETTINGS: GitHubPublisherSettings = {
+	profiles: [],
+};
+
+/**
+ * Creates a new profile with default values and a unique identifier.
+ *
+ * @param name - The name of the profile.
+ * @returns The new profile.
+ */
+export function createProfile(name: string): PublishProfile {
+	return {
+		...structuredClone(DEFAULT_PROFILE),
+		id:
+			Date.now().toString(36) +
+			Math.random().toString(36).substring(2, 8),
+		name,
+	};
+}
+
+/**
+ * Builds the plugin settings from the stored data.
+ *
+ * Settings saved before profiles were introduced hold a single publish target at their
+ * root: they are migrated to a "Default" profile. Missing values are filled with defaults.
+ *
+ * @param data - The data loaded from storage.
+ * @returns The plugin settings.
+ */
+export function migrateSettings(data: unknown): GitHubPublisherSettings {
+	const stored = (data ?? {}) as Partial<GitHubPublisherSettings> &
+		Partial<PublishProfile>;
+	const settings: GitHubPublisherSettings = Object.assign(
+		{},
+		DEFAULT_SETTINGS,
+		stored,
+	);
+
+	// Migrate the single-target settings to a profile
+	if (!stored.profiles && stored.repoUrl !== undefined) {
+		const legacy = { ...stored } as Partial<PublishProfile> &
+			Record<string, unknown>;
+		delete legacy.profiles;
+		settings.profiles = [
+			{ ...createProfile("Default"), ...legacy } as PublishProfile,
+		];
+		for (const key of Object.keys(legacy)) {
+			delete (settings as unknown as Record<string, unknown>)[key];
+		}
+	}
+
+	// Fill the missing values of each profile
+	settings.profiles = (settings.profiles ?? []).map((profile) =>
+		Object.assign({}, structuredClone(DEFAULT_PROFILE), profile),
+	);
+
+	return settings;
+}
@@ -0,0 +1,121 @@
+import { PublishProgress } from "./publish-queue";
+
+/**
+ * Formats the progress of a publish.
+ *
+ * @param progress - The progress.
+ * @returns The formatted progress (e.g. "uploading 3/12").
+ */
+function formatProgress(progress: PublishProgress): string {
+	if (progress.phase === "hashing" || progress.phase === "uploading") {
+		return `${progress.phase} ${progress.done}/${progress.total}`;
+	}
+	return `${progress.phase}…`;
+}
+
+/**
+ * Formats the time elapsed since a date in a short, human readable way.
+ *
+ * @param date - The date.
+ * @returns The elapsed time (e.g. "5 min ago").
+ */
+export function formatElapsed(date: Date): string {
+	const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+	if (minutes < 1) return "just now";
+	if (minutes < 60) return `${minutes} min ago`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours} h ago`;
+	return `${Math.floor(hours / 24)} d ago`;
+}
+
+// Status bar item showing whether profiles are being published, the last error and the time since the last publish
+export class PublishStatusBar {
+	el: HTMLElement; // Status bar item
+	getLastPublish: () => Date | null; // Returns the date of the last successful publish
+	publishing = new Set<string>(); // Names of the profiles being published
+	errors = new Map<string, string>(); // Profile name -> error of its last publish, if it failed
+	progress: PublishProgress | null = null; // Progress of the running publish
+	waiting = 0; // Number of publishes waiting for the running one
+
+	/**
+	 * Creates the status bar item.
+	 * @param el - The status bar item element.
+	 * @param getLastPublish - Returns the date of the last successful publish, if any.
+	 * @param onClick - Called when the item is clicked.
+	 */
+	constructor(
+		el: HTMLElement,
+		getLastPublish: () => Date | null,
+		onClick: () => void,
+	) {
+		this.el = el;
+		this.getLastPublish = getLastPublish;
+		this.el.addClass("mod-clickable", "github-publisher-status");
+		this.el.addEventListener("click", onClick);
+		this.update();
+	}
+
+	/**
+	 * Marks a profile as being published.
+	 *
+	 * @param profileName - The name of the profile.
+	 */
+	start(profileName: string): void {
+		this.publishing.add(profileName);
+		this.update();
+	}
+
+	/**
+	 * Marks the publish of a profile as finished.
+	 *
+	 * @param profileName - The name of the profile.
+	 * @param error - The error message, if the publish failed.
+	 */
+	finish(profileName: string, error?: string): void {
+		this.publishing.delete(profileName);
+		if (error !== undefined) this.errors.set(profileName, error);
+		else this.errors.delete(profileName);
+		this.update();
+	}
+
+	/**
+	 * Shows the progress of the running publish.
+	 *
+	 * @param progress - The progress, or null once no publish is running.
+	 * @param waiting - The number of publishes waiting for the running one.
+	 */
+	setProgress(progress: PublishProgress | null, waiting: number): void {
+		this.progress = progress;
+		this.waiting = waiting;
+		this.update();
+	}
+
+	/**
+	 * Refreshes the text and tooltip of the item.
+	 */
+	update(): void {
+		const lastPublish = this.getLastPublish();
+
+		let text: string;
+		let tooltip: string;
+		if (this.publishing.size > 0) {
+			text = `GitHub: ${this.progress ? formatProgress(this.progress) : "publishing…"}`;
+			tooltip = `Publishing ${[...this.publishing].join(", ")}`;
+			if (this.waiting > 0) tooltip += `, ${this.waiting} waiting`;
+		} else if (this.errors.size > 0) {
+			text = "GitHub: error";
+			tooltip = [...this.errors]
+				.map(([name, error]) => `${name}: ${error}`)
+				.join("\n");
+		} else {
+			text = `GitHub: ${lastPublish ? formatElapsed(lastPublish) : "idle"}`;
+			tooltip = lastPublish
+				? `Last publish ${formatElapsed(lastPublish)}, click to publish`
+				: "Never published, click to publish";
+		}
+		this.el.setText(text);
+		this.el.toggleClass("mod-error", this.errors.size > 0);
+		this.el.setAttr("aria-label", tooltip);
+		this.el.setAttr("data-tooltip-position", "top");
+	}
+}
@@ -0,0 +1,69 @@
+import { App } from "obsidian";
+import { RemoteFile } from "./publish-plan";
+
+// Interface for the cached state of a vault file, as of its last read
+export interface FileState {
+	mtime: number; // Modification time of the file
+	size: number; // Size of the file in bytes
+	sha: string; // Blob SHA of its published (transformed) content
+}
+
+// Interface for the sync state of a profile
+export interface ProfileSyncState {
+	target: string; // Repository, branch and managed folders the state applies to
+	fingerprint: string; // Fingerprint of the settings and paths affecting the published contents
+	commitSha: string; // SHA of the branch head after the last publish
+	treeSha: string; // SHA of the tree of that commit
+	remoteFiles: Record<string, RemoteFile>; // Remote files in the managed folders at that commit, by repo path
+	files: Record<string, FileState>; // Local files, by vault path
+	synced?: Record<string, string>; // Blob SHA of each file identical in the vault and the repository at its last sync, by repo path
+}
+
+// Interface for the sync state of all profiles, persisted next to the settings
+export interface SyncState {
+	profiles: Record<string, ProfileSyncState>; // Sync state by profile ID
+	blobs: Record<string, Record<string, number>>; // Blobs uploaded by publishes that did not complete, by repository ("owner/repo") then SHA, with their upload time
+}
+
+/**
+ * Loads the sync state from the given file.
+ * A missing or unreadable file results in an empty state, in which case the next publish
+ * of each profile reads every file and fetches the whole remote tree.
+ *
+ * @param app - The Obsidian App instance.
+ * @param path - The path of the sync state file, relative to the vault.
+ * @returns {Promise<SyncState>} The sync state.
+ */
+export async function loadSyncState(
+	app: App,
+	path: string,
+): Promise<SyncState> {
+	try {
+		if (!(await app.vault.adapter.exists(path))) {
+			return { profiles: {}, blobs: {} };
+		}
+		const data = JSON.parse(
+			await app.vault.adapter.read(path),
+		) as Partial<SyncState> | null;
+		return { profiles: data?.profiles ?? {}, blobs: data?.blobs ?? {} };
+	} catch (e) {
+		console.warn("GitHub Publisher: could not load the sync state", e);
+		return { profiles: {}, blobs: {} };
+	}
+}
+
+/**
+ * Saves the sync state to the given file.
+ *
+ * @param app - The Obsidian App instance.
+ * @param path - The path of the sync state file, relative to the vault.
+ * @param state - The sync state.
+ * @returns {Promise<void>} Resolves when the state has been written.
+ */
+export async function saveSyncState(
+	app: App,
+	path: string,
+	state: SyncState,
+): Promise<void> {
+	await app.vault.adapter.write(path, JSON.stringify(state));
+}
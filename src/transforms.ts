@@ -0,0 +1,45 @@
+import { App } from "obsidian";
+
+// File passed through the transformation pipeline
+export interface TransformFile {
+	vaultPath: string; // Path in the Obsidian vault
+	repoPath: string; // Path in the GitHub repository
+}
+
+// Shared state available to every transformation step
+export interface TransformContext {
+	app: App; // The Obsidian App instance
+	repoPaths: Map<string, string>; // vaultPath -> repoPath of every published file
+	warnings: string[]; // Warnings collected during the run, reported at the end of the publish
+}
+
+// A single step of the pipeline: receives the text content and returns the transformed text
+export type ContentTransform = (
+	content: string,
+	file: TransformFile,
+	context: TransformContext,
+) => string;
+
+/**
+ * Runs the given content through each transformation step in order.
+ *
+ * Only markdown notes are transformed, any other file is returned untouched.
+ *
+ * @param content - The text content of the file.
+ * @param file - The file being published.
+ * @param transforms - The transformation steps to apply.
+ * @param context - The shared transformation context.
+ * @returns The transformed content.
+ */
+export function applyTransforms(
+	content: string,
+	file: TransformFile,
+	transforms: ContentTransform[],
+	context: TransformContext,
+): string {
+	if (!file.vaultPath.toLowerCase().endsWith(".md")) return content;
+	return transforms.reduce(
+		(current, transform) => transform(current, file, context),
+		content,
+	);
+}